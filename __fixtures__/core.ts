@@ -5,3 +5,11 @@ export const debug = jest.fn<typeof core.debug>()
 export const getInput = jest.fn<typeof core.getInput>()
 export const setOutput = jest.fn<typeof core.setOutput>()
 export const setFailed = jest.fn<typeof core.setFailed>()
+export const setSecret = jest.fn<typeof core.setSecret>()
+export const addSummary = jest.fn<typeof core.addSummary>()
+export const error = jest.fn<typeof core.error>()
+export const warning = jest.fn<typeof core.warning>()
+export const info = jest.fn<typeof core.info>()
+export const startGroup = jest.fn<typeof core.startGroup>()
+export const endGroup = jest.fn<typeof core.endGroup>()
+export const stopCommands = jest.fn<typeof core.stopCommands>()
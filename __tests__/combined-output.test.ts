@@ -0,0 +1,196 @@
+/**
+ * Unit tests for src/combined-output.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { Readable } from 'stream'
+import { text } from 'stream/consumers'
+
+const {
+  nowNs,
+  formatTimestamp,
+  parseCombinedFormat,
+  formatCombinedLine,
+  createLineSplitter,
+  createLinePrefixer
+} = await import('../src/combined-output.js')
+
+describe('combined-output.ts', () => {
+  describe('nowNs', () => {
+    it('Returns the current time in nanoseconds', () => {
+      const before = BigInt(Date.now()) * 1_000_000n
+      const now = nowNs()
+
+      // Allow for the offset being measured at module load
+      expect(now).toBeGreaterThan(before - 1_000_000_000n)
+      expect(now).toBeLessThan(before + 1_000_000_000n)
+    })
+  })
+
+  describe('formatTimestamp', () => {
+    it('Formats a timestamp with nanosecond precision', () => {
+      expect(formatTimestamp(1_700_000_000_123_456_789n)).toBe(
+        '2023-11-14T22:13:20.123456789Z'
+      )
+    })
+
+    it('Pads the fractional seconds', () => {
+      expect(formatTimestamp(1_700_000_000_000_000_007n)).toBe(
+        '2023-11-14T22:13:20.000000007Z'
+      )
+    })
+  })
+
+  describe('parseCombinedFormat', () => {
+    it('Returns null when disabled', () => {
+      expect(parseCombinedFormat('')).toBeNull()
+      expect(parseCombinedFormat('none')).toBeNull()
+    })
+
+    it('Parses each format case-insensitively', () => {
+      expect(parseCombinedFormat('plain')).toBe('plain')
+      expect(parseCombinedFormat('Prefixed')).toBe('prefixed')
+      expect(parseCombinedFormat('JSONL')).toBe('jsonl')
+    })
+
+    it('Throws error for an unknown format', () => {
+      expect(() => parseCombinedFormat('csv')).toThrow(
+        'Invalid combined_output: "csv"'
+      )
+    })
+  })
+
+  describe('formatCombinedLine', () => {
+    const timeNs = 1_700_000_000_123_456_789n
+
+    it('Formats a plain line', () => {
+      expect(formatCombinedLine('plain', 'stderr', 'oops', timeNs)).toBe(
+        'oops\n'
+      )
+    })
+
+    it('Formats a prefixed line', () => {
+      expect(formatCombinedLine('prefixed', 'stdout', 'hello', timeNs)).toBe(
+        '2023-11-14T22:13:20.123456789Z [stdout] hello\n'
+      )
+    })
+
+    it('Formats a JSON line', () => {
+      const line = formatCombinedLine('jsonl', 'stderr', 'say "hi"', timeNs)
+      expect(line.endsWith('\n')).toBe(true)
+      expect(JSON.parse(line)).toEqual({
+        time: '2023-11-14T22:13:20.123456789Z',
+        stream: 'stderr',
+        line: 'say "hi"'
+      })
+    })
+  })
+
+  describe('createLineSplitter', () => {
+    const collect = () => {
+      const lines: string[] = []
+      const splitter = createLineSplitter((line) => lines.push(line))
+      return { lines, splitter }
+    }
+
+    it('Splits a chunk into lines', () => {
+      const { lines, splitter } = collect()
+      splitter.write(Buffer.from('one\ntwo\n'))
+      expect(lines).toEqual(['one', 'two'])
+    })
+
+    it('Joins lines split across chunks', () => {
+      const { lines, splitter } = collect()
+      splitter.write(Buffer.from('hel'))
+      splitter.write(Buffer.from('lo\nwor'))
+      splitter.write(Buffer.from('ld\n'))
+      expect(lines).toEqual(['hello', 'world'])
+    })
+
+    it('Reassembles multi-byte characters split across chunks', () => {
+      const { lines, splitter } = collect()
+      const bytes = Buffer.from('héllo\n')
+      splitter.write(bytes.subarray(0, 2))
+      splitter.write(bytes.subarray(2))
+      expect(lines).toEqual(['héllo'])
+    })
+
+    it('Flushes the final partial line on end', () => {
+      const { lines, splitter } = collect()
+      splitter.write(Buffer.from('done\nno newline'))
+      splitter.end()
+      expect(lines).toEqual(['done', 'no newline'])
+    })
+
+    it('Keeps empty lines', () => {
+      const { lines, splitter } = collect()
+      splitter.write(Buffer.from('a\n\nb\n'))
+      splitter.end()
+      expect(lines).toEqual(['a', '', 'b'])
+    })
+
+    it('Reports a long line without an end in pieces', () => {
+      const { lines, splitter } = collect()
+      for (let i = 0; i < 5; i++) {
+        splitter.write(Buffer.from('x'.repeat(30 * 1024)))
+      }
+      expect(lines).toEqual(['x'.repeat(64 * 1024), 'x'.repeat(64 * 1024)])
+
+      splitter.write(Buffer.from('y\n'))
+      expect(lines[2]).toBe(`${'x'.repeat(22 * 1024)}y`)
+    })
+
+    it('Does not cut a surrogate pair when reporting a piece', () => {
+      const { lines, splitter } = collect()
+      splitter.write(Buffer.from(`${'x'.repeat(64 * 1024 - 1)}😀z`))
+      splitter.end()
+      expect(lines).toEqual(['x'.repeat(64 * 1024 - 1), '😀z'])
+    })
+
+    it('Reports the time the line started arriving', () => {
+      const times: bigint[] = []
+      const splitter = createLineSplitter((_line, timeNs) => times.push(timeNs))
+      const before = nowNs()
+      splitter.write(Buffer.from('start'))
+      const between = nowNs()
+      splitter.write(Buffer.from(' end\n'))
+
+      expect(times).toHaveLength(1)
+      expect(times[0]).toBeGreaterThanOrEqual(before)
+      expect(times[0]).toBeLessThanOrEqual(between)
+    })
+  })
+
+  describe('createLinePrefixer', () => {
+    const prefixChunks = (chunks: string[]) =>
+      text(
+        Readable.from(chunks.map((chunk) => Buffer.from(chunk))).pipe(
+          createLinePrefixer('[1:echo] ')
+        )
+      )
+
+    it('Prefixes every line', async () => {
+      expect(await prefixChunks(['one\ntwo\n'])).toBe(
+        '[1:echo] one\n[1:echo] two\n'
+      )
+    })
+
+    it('Prefixes lines split across chunks once', async () => {
+      expect(await prefixChunks(['hel', 'lo\nwor', 'ld\n'])).toBe(
+        '[1:echo] hello\n[1:echo] world\n'
+      )
+    })
+
+    it('Passes on a long line without an end in pieces', async () => {
+      const output = await prefixChunks(['x'.repeat(100 * 1024)])
+      expect(output).toBe(
+        `[1:echo] ${'x'.repeat(64 * 1024)}\n[1:echo] ${'x'.repeat(36 * 1024)}\n`
+      )
+    })
+
+    it('Ends the final partial line', async () => {
+      expect(await prefixChunks(['done\nno newline'])).toBe(
+        '[1:echo] done\n[1:echo] no newline\n'
+      )
+    })
+  })
+})
@@ -0,0 +1,307 @@
+/**
+ * Unit tests for src/env.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const {
+  parseEnvInput,
+  parseDotenv,
+  parseInheritEnv,
+  buildChildEnv,
+  parseEnvScrub,
+  resolveWorkingDirectory,
+  parseEnvNamePatterns,
+  createEnvNameMatcher
+} = await import('../src/env.js')
+
+describe('env.ts', () => {
+  describe('parseEnvInput', () => {
+    it('Parses KEY=VALUE lines', () => {
+      expect(parseEnvInput('FOO=bar\nBAZ=qux')).toEqual({
+        FOO: 'bar',
+        BAZ: 'qux'
+      })
+    })
+
+    it('Keeps everything after the first equals sign', () => {
+      expect(parseEnvInput('QUERY=a=1&b=2')).toEqual({ QUERY: 'a=1&b=2' })
+    })
+
+    it('Allows empty values', () => {
+      expect(parseEnvInput('EMPTY=')).toEqual({ EMPTY: '' })
+    })
+
+    it('Ignores blank lines and comments', () => {
+      expect(parseEnvInput('\n# comment\nFOO=bar\n\n')).toEqual({ FOO: 'bar' })
+    })
+
+    it('Returns an empty object for empty input', () => {
+      expect(parseEnvInput('')).toEqual({})
+    })
+
+    it('Throws error for a line without an equals sign', () => {
+      expect(() => parseEnvInput('FOO')).toThrow('Invalid env line: "FOO"')
+    })
+
+    it('Throws error for an invalid name', () => {
+      expect(() => parseEnvInput('1FOO=bar')).toThrow(
+        'Invalid environment variable name in env: "1FOO"'
+      )
+    })
+  })
+
+  describe('parseDotenv', () => {
+    it('Parses unquoted values', () => {
+      expect(parseDotenv('FOO=bar\nBAZ = qux ')).toEqual({
+        FOO: 'bar',
+        BAZ: 'qux'
+      })
+    })
+
+    it('Strips the export prefix', () => {
+      expect(parseDotenv('export FOO=bar')).toEqual({ FOO: 'bar' })
+    })
+
+    it('Strips trailing comments from unquoted values', () => {
+      expect(parseDotenv('FOO=bar # comment\nURL=a#b')).toEqual({
+        FOO: 'bar',
+        URL: 'a#b'
+      })
+    })
+
+    it('Keeps single-quoted values literally', () => {
+      expect(parseDotenv("FOO='a \\n # b'")).toEqual({ FOO: 'a \\n # b' })
+    })
+
+    it('Unescapes double-quoted values', () => {
+      expect(parseDotenv('FOO="a\\nb \\"c\\" \\\\"')).toEqual({
+        FOO: 'a\nb "c" \\'
+      })
+    })
+
+    it('Supports multi-line double-quoted values', () => {
+      expect(parseDotenv('KEY="line1\nline2"\nNEXT=1')).toEqual({
+        KEY: 'line1\nline2',
+        NEXT: '1'
+      })
+    })
+
+    it('Ignores comments and blank lines', () => {
+      expect(parseDotenv('# comment\r\n\r\nFOO=bar\r\n')).toEqual({
+        FOO: 'bar'
+      })
+    })
+
+    it('Throws error for a line without an equals sign', () => {
+      expect(() => parseDotenv('FOO=bar\nBAZ')).toThrow(
+        'Invalid env_file line 2: "BAZ"'
+      )
+    })
+
+    it('Throws error for an unclosed single quote', () => {
+      expect(() => parseDotenv("FOO='bar")).toThrow('unclosed quote')
+    })
+
+    it('Throws error for an unclosed double quote', () => {
+      expect(() => parseDotenv('FOO="bar\nBAZ=1')).toThrow(
+        'Invalid env_file line 1: unclosed quote (")'
+      )
+    })
+  })
+
+  describe('parseInheritEnv', () => {
+    it('Defaults to true', () => {
+      expect(parseInheritEnv('')).toBe(true)
+      expect(parseInheritEnv('TRUE')).toBe(true)
+    })
+
+    it('Parses false', () => {
+      expect(parseInheritEnv('false')).toBe(false)
+    })
+
+    it('Parses an allowlist', () => {
+      expect(parseInheritEnv('PATH, HOME\nLANG')).toEqual([
+        'PATH',
+        'HOME',
+        'LANG'
+      ])
+    })
+
+    it('Parses name patterns', () => {
+      expect(parseInheritEnv('PATH,NODE_*,LC_?')).toEqual([
+        'PATH',
+        'NODE_*',
+        'LC_?'
+      ])
+    })
+
+    it('Throws error for an invalid name', () => {
+      expect(() => parseInheritEnv('PATH,NOT-VALID')).toThrow(
+        'Invalid environment variable name pattern in inherit_env: "NOT-VALID"'
+      )
+    })
+  })
+
+  describe('buildChildEnv', () => {
+    const baseEnv = { PATH: '/bin', HOME: '/home/runner', SECRET: 'x' }
+
+    it('Inherits the whole base environment', () => {
+      expect(buildChildEnv({ inherit: true }, baseEnv)).toEqual(baseEnv)
+    })
+
+    it('Inherits nothing when inherit is false', () => {
+      expect(
+        buildChildEnv({ inherit: false, inputEnv: { FOO: 'bar' } }, baseEnv)
+      ).toEqual({ FOO: 'bar' })
+    })
+
+    it('Inherits only allowlisted variables', () => {
+      expect(buildChildEnv({ inherit: ['PATH', 'MISSING'] }, baseEnv)).toEqual({
+        PATH: '/bin'
+      })
+    })
+
+    it('Gives the env input precedence over the env file', () => {
+      expect(
+        buildChildEnv(
+          {
+            inherit: true,
+            fileEnv: { HOME: '/from/file', A: 'file' },
+            inputEnv: { A: 'input' }
+          },
+          baseEnv
+        )
+      ).toEqual({ ...baseEnv, HOME: '/from/file', A: 'input' })
+    })
+
+    it('Inherits only variables matching the name patterns', () => {
+      expect(buildChildEnv({ inherit: ['P*', 'HOM?'] }, baseEnv)).toEqual({
+        PATH: '/bin',
+        HOME: '/home/runner'
+      })
+    })
+
+    it('Removes scrubbed variables', () => {
+      expect(
+        buildChildEnv({ inherit: true, scrub: ['SEC*'] }, baseEnv)
+      ).toEqual({ PATH: '/bin', HOME: '/home/runner' })
+      expect(
+        buildChildEnv({ inherit: ['*'], scrub: ['SEC*'] }, baseEnv)
+      ).toEqual({ PATH: '/bin', HOME: '/home/runner' })
+    })
+
+    it('Keeps scrubbed variables listed by their exact name', () => {
+      expect(
+        buildChildEnv(
+          { inherit: ['PATH', 'SECRET', 'H*'], scrub: ['SECRET', 'HOME'] },
+          baseEnv
+        )
+      ).toEqual({ PATH: '/bin', SECRET: 'x' })
+    })
+
+    it('Keeps variables from the env file and the env input', () => {
+      expect(
+        buildChildEnv(
+          {
+            inherit: ['PATH'],
+            scrub: ['SECRET', 'A', 'B'],
+            fileEnv: { A: 'file' },
+            inputEnv: { SECRET: 'input', B: 'input' }
+          },
+          baseEnv
+        )
+      ).toEqual({ PATH: '/bin', A: 'file', SECRET: 'input', B: 'input' })
+    })
+  })
+
+  describe('parseEnvScrub', () => {
+    it('Defaults to the action inputs and runner tokens', () => {
+      expect(parseEnvScrub('')).toEqual([
+        'INPUT_*',
+        'ACTIONS_RUNTIME_TOKEN',
+        'ACTIONS_ID_TOKEN_REQUEST_*',
+        'GITHUB_TOKEN'
+      ])
+    })
+
+    it('Scrubs nothing with none', () => {
+      expect(parseEnvScrub(' None ')).toEqual([])
+    })
+
+    it('Parses a list of patterns', () => {
+      expect(parseEnvScrub('INPUT_*, AWS_*')).toEqual(['INPUT_*', 'AWS_*'])
+    })
+
+    it('Throws error for an invalid pattern', () => {
+      expect(() => parseEnvScrub('AWS-*')).toThrow(
+        'Invalid environment variable name pattern in env_scrub: "AWS-*"'
+      )
+    })
+  })
+
+  describe('resolveWorkingDirectory', () => {
+    it('Resolves a relative directory', () => {
+      expect(resolveWorkingDirectory('.')).toBe(process.cwd())
+    })
+
+    it('Throws error for a missing directory', () => {
+      expect(() => resolveWorkingDirectory('/does/not/exist')).toThrow(
+        'Working directory does not exist: /does/not/exist'
+      )
+    })
+
+    it('Throws error for a file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'exec-action-env-'))
+      const file = join(dir, 'file')
+      writeFileSync(file, '')
+
+      expect(() => resolveWorkingDirectory(file)).toThrow(
+        'Working directory is not a directory'
+      )
+    })
+  })
+  describe('parseEnvNamePatterns', () => {
+    it('Parses a list of patterns', () => {
+      expect(parseEnvNamePatterns('API_KEY, *_TOKEN\nDB_?', 'test')).toEqual([
+        'API_KEY',
+        '*_TOKEN',
+        'DB_?'
+      ])
+    })
+
+    it('Returns an empty list for empty input', () => {
+      expect(parseEnvNamePatterns('', 'test')).toEqual([])
+    })
+
+    it('Throws error for an invalid pattern', () => {
+      expect(() => parseEnvNamePatterns('GOOD,BAD-NAME', 'redact_env')).toThrow(
+        'Invalid environment variable name pattern in redact_env: "BAD-NAME"'
+      )
+    })
+  })
+
+  describe('createEnvNameMatcher', () => {
+    it('Matches exact names', () => {
+      const matches = createEnvNameMatcher(['API_KEY'])
+      expect(matches('API_KEY')).toBe(true)
+      expect(matches('API_KEY_2')).toBe(false)
+      expect(matches('api_key')).toBe(false)
+    })
+
+    it('Matches wildcards', () => {
+      const matches = createEnvNameMatcher(['*_TOKEN', 'DB_?'])
+      expect(matches('GITHUB_TOKEN')).toBe(true)
+      expect(matches('_TOKEN')).toBe(true)
+      expect(matches('TOKEN')).toBe(false)
+      expect(matches('DB_1')).toBe(true)
+      expect(matches('DB_12')).toBe(false)
+    })
+
+    it('Matches nothing without patterns', () => {
+      expect(createEnvNameMatcher([])('PATH')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for src/extract.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { readFileSync } from 'fs'
+import { mkdtemp, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const {
+  parseExtractInput,
+  parseExtractMode,
+  extractOutputs,
+  checkOutputNameIsFree
+} = await import('../src/extract.js')
+
+describe('extract.ts', () => {
+  describe('parseExtractInput', () => {
+    it('Parses name=regex lines', () => {
+      const [version, url] = parseExtractInput(
+        'version=^v(\\d+\\.\\d+)$\n\nstderr:url=(?<host>[a-z.]+)/(?<path>.*)'
+      )
+
+      expect(version).toMatchObject({
+        name: 'version',
+        stream: 'stdout',
+        groups: []
+      })
+      expect(version.regexp.source).toBe('^v(\\d+\\.\\d+)$')
+      expect(url).toMatchObject({
+        name: 'url',
+        stream: 'stderr',
+        groups: ['host', 'path']
+      })
+    })
+
+    it('Keeps equals signs in the regex', () => {
+      expect(parseExtractInput('id=id=(\\d+)')[0].regexp.source).toBe(
+        'id=(\\d+)'
+      )
+    })
+
+    it('Returns an empty list for empty input', () => {
+      expect(parseExtractInput('')).toEqual([])
+    })
+
+    it('Throws error for a line without an equals sign', () => {
+      expect(() => parseExtractInput('version')).toThrow(
+        'Invalid extract line: "version"'
+      )
+    })
+
+    it('Throws error for an invalid name', () => {
+      expect(() => parseExtractInput('my version=v(.*)')).toThrow(
+        'Invalid output name in extract: "my version"'
+      )
+    })
+
+    it('Throws error for an output of the action', () => {
+      expect(() => parseExtractInput('exit_code=code (\\d+)')).toThrow(
+        'Invalid output name in extract: "exit_code". It is already an output of the action'
+      )
+      expect(() => parseExtractInput('stderr:Stdout_File=(.*)')).toThrow(
+        'Invalid output name in extract: "Stdout_File"'
+      )
+    })
+
+    it('Throws error for a named group setting an output of the action', () => {
+      expect(() => parseExtractInput('combined=(?<file>.*)')).toThrow(
+        'Invalid output name in extract: "combined_file"'
+      )
+    })
+
+    it('Throws error for an invalid regex', () => {
+      expect(() => parseExtractInput('version=v(\\d+')).toThrow(
+        'Invalid extract pattern for "version": "v(\\d+".'
+      )
+    })
+  })
+
+  describe('parseExtractMode', () => {
+    it('Defaults to first', () => {
+      expect(parseExtractMode('')).toBe('first')
+    })
+
+    it('Parses the modes', () => {
+      expect(parseExtractMode('LAST')).toBe('last')
+      expect(parseExtractMode('all')).toBe('all')
+    })
+
+    it('Throws error for an unknown mode', () => {
+      expect(() => parseExtractMode('any')).toThrow(
+        'Invalid extract_mode: "any"'
+      )
+    })
+  })
+
+  describe('extractOutputs', () => {
+    const writeTempFile = async (content: string) => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-extract-'))
+      const path = join(dir, 'out')
+      await writeFile(path, content)
+      return path
+    }
+
+    const output = 'id: 1\r\nurl: https://a.example/x\nid: 2\nid: 3\n'
+    const extractions = parseExtractInput(
+      'id=^id: (\\d+)$\nlink=https://(?<host>[^/]+)(?<path>/.*)\nmissing=nope'
+    )
+
+    it('Extracts the first match', async () => {
+      const path = await writeTempFile(output)
+
+      expect(await extractOutputs(path, extractions, 'first', '\n')).toEqual({
+        id: '1',
+        link: 'a.example',
+        link_host: 'a.example',
+        link_path: '/x',
+        missing: ''
+      })
+    })
+
+    it('Extracts the last match', async () => {
+      const path = await writeTempFile(output)
+
+      expect(await extractOutputs(path, extractions, 'last', '\n')).toEqual(
+        expect.objectContaining({ id: '3' })
+      )
+    })
+
+    it('Joins all matches', async () => {
+      const path = await writeTempFile(output)
+
+      expect(await extractOutputs(path, extractions, 'all', ',')).toEqual(
+        expect.objectContaining({ id: '1,2,3', link_path: '/x' })
+      )
+    })
+
+    it('Uses the whole match without capture groups', async () => {
+      const path = await writeTempFile('build 42 done')
+
+      expect(
+        await extractOutputs(
+          path,
+          parseExtractInput('build=\\d+'),
+          'first',
+          '\n'
+        )
+      ).toEqual({ build: '42' })
+    })
+
+    it('Returns nothing without extractions', async () => {
+      expect(
+        await extractOutputs('/does/not/exist', [], 'first', '\n')
+      ).toEqual({})
+    })
+  })
+
+  describe('checkOutputNameIsFree', () => {
+    it('Rejects every output in action.yml', () => {
+      const actionYml = readFileSync(
+        join(import.meta.dirname, '..', 'action.yml'),
+        'utf8'
+      )
+      const outputs = [
+        ...actionYml
+          .slice(actionYml.indexOf('\noutputs:'))
+          .matchAll(/^ {2}([a-z_]+):$/gm)
+      ].map((match) => match[1])
+
+      expect(outputs).toContain('exit_code')
+      for (const name of outputs) {
+        expect(() => checkOutputNameIsFree(name, 'test')).toThrow(
+          `Invalid output name in test: "${name}"`
+        )
+      }
+    })
+
+    it('Accepts other names', () => {
+      expect(checkOutputNameIsFree('version', 'test')).toBe('version')
+    })
+  })
+})
@@ -14,8 +14,20 @@ import * as os from 'os'
 import * as path from 'path'
 
 // Import the module to test
-const { getInput, setOutput, debug, setFailed } =
-  await import('../src/github-actions.js')
+const {
+  getInput,
+  setOutput,
+  debug,
+  setFailed,
+  setSecret,
+  addSummary,
+  error,
+  warning,
+  info,
+  startGroup,
+  endGroup,
+  stopCommands
+} = await import('../src/github-actions.js')
 
 describe('github-actions.ts', () => {
   let originalEnv: NodeJS.ProcessEnv
@@ -71,6 +83,12 @@ describe('github-actions.ts', () => {
       expect(result).toBe('trimmed')
     })
 
+    it('Keeps whitespace when trimWhitespace is false', () => {
+      process.env['INPUT_TEST'] = '  kept  \n'
+      const result = getInput('test', { trimWhitespace: false })
+      expect(result).toBe('  kept  \n')
+    })
+
     it('Returns empty string when input not set', () => {
       const result = getInput('nonexistent')
       expect(result).toBe('')
@@ -147,5 +165,160 @@ describe('github-actions.ts', () => {
 
       expect(stdoutSpy).toHaveBeenCalledWith('::error::error message\n')
     })
+
+    it('Escapes line breaks so the message cannot start a command', () => {
+      setFailed('ERROR\r::warning::pwned\n::error::again')
+
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        '::error::ERROR%0D::warning::pwned%0A::error::again\n'
+      )
+    })
+  })
+  describe('setSecret', () => {
+    it('Writes an add-mask command to stdout', () => {
+      setSecret('s3cr3t')
+
+      expect(stdoutSpy).toHaveBeenCalledWith('::add-mask::s3cr3t\n')
+    })
+
+    it('Masks each line of a multi-line secret', () => {
+      setSecret('line1\r\nline2\n\n')
+
+      expect(stdoutSpy).toHaveBeenCalledTimes(2)
+      expect(stdoutSpy).toHaveBeenCalledWith('::add-mask::line1\n')
+      expect(stdoutSpy).toHaveBeenCalledWith('::add-mask::line2\n')
+    })
+  })
+
+  describe('addSummary', () => {
+    it('Appends to the GITHUB_STEP_SUMMARY file', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'github-actions-'))
+      const summaryFile = path.join(tmpDir, 'summary')
+      process.env['GITHUB_STEP_SUMMARY'] = summaryFile
+
+      addSummary('# One\n')
+      addSummary('# Two\n')
+
+      expect(fs.readFileSync(summaryFile, 'utf8')).toBe('# One\n# Two\n')
+
+      fs.rmSync(tmpDir, { recursive: true })
+    })
+
+    it('Does nothing when GITHUB_STEP_SUMMARY is not set', () => {
+      delete process.env['GITHUB_STEP_SUMMARY']
+
+      expect(() => addSummary('# Summary\n')).not.toThrow()
+    })
+  })
+
+  describe('error', () => {
+    it('Writes an error command to stdout', () => {
+      error('something failed')
+
+      expect(stdoutSpy).toHaveBeenCalledWith('::error::something failed\n')
+    })
+
+    it('Writes the location of the error', () => {
+      error('bad', {
+        file: 'src/a,b.ts',
+        startLine: 3,
+        startColumn: 7,
+        title: 'TS2322: type'
+      })
+
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        '::error file=src/a%2Cb.ts,line=3,col=7,title=TS2322%3A type::bad\n'
+      )
+    })
+
+    it('Escapes multi-line messages', () => {
+      error('100% broken\r\nsee above')
+
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        '::error::100%25 broken%0D%0Asee above\n'
+      )
+    })
+  })
+
+  describe('warning', () => {
+    it('Writes a warning command to stdout', () => {
+      warning('careful', { file: 'a.ts', startLine: 1, endLine: 2 })
+
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        '::warning file=a.ts,line=1,endLine=2::careful\n'
+      )
+    })
+  })
+
+  describe('info', () => {
+    it('Writes the message to stdout', () => {
+      info('hello')
+
+      expect(stdoutSpy).toHaveBeenCalledWith('hello\n')
+    })
+  })
+
+  describe('startGroup', () => {
+    it('Writes a group command to stdout', () => {
+      startGroup('Run echo a%b\nc')
+
+      expect(stdoutSpy).toHaveBeenCalledWith('::group::Run echo a%25b%0Ac\n')
+    })
+  })
+
+  describe('endGroup', () => {
+    it('Writes an endgroup command to stdout', () => {
+      endGroup()
+
+      expect(stdoutSpy).toHaveBeenCalledWith('::endgroup::\n')
+    })
+  })
+
+  describe('stopCommands', () => {
+    const written = () =>
+      stdoutSpy.mock.calls.map(([chunk]) => chunk.toString()).join('')
+
+    it('Stops and resumes workflow commands with a random token', () => {
+      const resume = stopCommands()
+      resume()
+
+      const [, token] = /^::stop-commands::([0-9a-f]{32})\n/.exec(written())!
+      expect(written()).toBe(`::stop-commands::${token}\n::${token}::\n`)
+
+      stdoutSpy.mockClear()
+      stopCommands()()
+      expect(written()).not.toContain(token)
+    })
+
+    it('Holds back commands issued while stopped until resumed', () => {
+      const resume = stopCommands()
+      const [, token] = /::stop-commands::(\w+)/.exec(written())!
+      stdoutSpy.mockClear()
+
+      error('failed', { file: 'a.ts' })
+      debug('message')
+      expect(stdoutSpy).not.toHaveBeenCalled()
+
+      resume()
+      debug('resumed')
+
+      expect(written()).toBe(
+        `::${token}::\n::error file=a.ts::failed\n::debug::message\n` +
+          '::debug::resumed\n'
+      )
+    })
+
+    it('Resumes workflow commands once every caller has resumed them', () => {
+      const resumeFirst = stopCommands()
+      const resumeSecond = stopCommands()
+      expect(stdoutSpy).toHaveBeenCalledTimes(1)
+
+      resumeFirst()
+      resumeFirst()
+      expect(stdoutSpy).toHaveBeenCalledTimes(1)
+
+      resumeSecond()
+      expect(stdoutSpy).toHaveBeenCalledTimes(2)
+    })
   })
 })
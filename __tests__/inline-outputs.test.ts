@@ -0,0 +1,65 @@
+/**
+ * Unit tests for src/inline-outputs.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { mkdtemp, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const { parseInlineOutputs, readInlineOutput } =
+  await import('../src/inline-outputs.js')
+
+describe('inline-outputs.ts', () => {
+  describe('parseInlineOutputs', () => {
+    it('Returns an empty list for empty input', () => {
+      expect(parseInlineOutputs('')).toEqual([])
+    })
+
+    it('Parses a list of streams', () => {
+      expect(parseInlineOutputs('stdout, STDERR')).toEqual(['stdout', 'stderr'])
+    })
+
+    it('Ignores duplicates', () => {
+      expect(parseInlineOutputs('stdout,stdout')).toEqual(['stdout'])
+    })
+
+    it('Throws error for an unknown stream', () => {
+      expect(() => parseInlineOutputs('stdout,combined')).toThrow(
+        'Invalid inline_outputs: "combined"'
+      )
+    })
+  })
+
+  describe('readInlineOutput', () => {
+    const writeTempFile = async (content: string) => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-inline-'))
+      const path = join(dir, 'out')
+      await writeFile(path, content)
+      return path
+    }
+
+    it('Reads a file within the limit', async () => {
+      const path = await writeTempFile('hello\n')
+      expect(await readInlineOutput(path, 6, false)).toEqual({
+        value: 'hello\n',
+        truncated: false
+      })
+    })
+
+    it('Trims trailing newlines', async () => {
+      const path = await writeTempFile('a\n\nb\r\n\n')
+      expect(await readInlineOutput(path, 100, true)).toEqual({
+        value: 'a\n\nb',
+        truncated: false
+      })
+    })
+
+    it('Does not read a file above the limit', async () => {
+      const path = await writeTempFile('hello\n')
+      expect(await readInlineOutput(path, 5, true)).toEqual({
+        value: '',
+        truncated: true
+      })
+    })
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for src/json-outputs.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+
+const {
+  parseStdoutFormat,
+  parseJsonErrorMode,
+  parseJsonPath,
+  parseJsonOutputs,
+  parseStdoutJson,
+  getJsonOutputValue
+} = await import('../src/json-outputs.js')
+
+describe('json-outputs.ts', () => {
+  describe('parseStdoutFormat', () => {
+    it('Defaults to text', () => {
+      expect(parseStdoutFormat('')).toBe('text')
+    })
+
+    it('Parses the formats', () => {
+      expect(parseStdoutFormat('JSON')).toBe('json')
+      expect(parseStdoutFormat('jsonl')).toBe('jsonl')
+    })
+
+    it('Throws error for an unknown format', () => {
+      expect(() => parseStdoutFormat('yaml')).toThrow(
+        'Invalid stdout_format: "yaml"'
+      )
+    })
+  })
+
+  describe('parseJsonErrorMode', () => {
+    it('Defaults to fail', () => {
+      expect(parseJsonErrorMode('')).toBe('fail')
+    })
+
+    it('Parses warn', () => {
+      expect(parseJsonErrorMode('Warn')).toBe('warn')
+    })
+
+    it('Throws error for an unknown mode', () => {
+      expect(() => parseJsonErrorMode('ignore')).toThrow(
+        'Invalid json_error: "ignore"'
+      )
+    })
+  })
+
+  describe('parseJsonPath', () => {
+    it.each([
+      ['.', []],
+      ['.id', ['id']],
+      ['.items[0].id', ['items', 0, 'id']],
+      ['[-1].name', [-1, 'name']],
+      [
+        '.labels["app.kubernetes.io/name"]',
+        ['labels', 'app.kubernetes.io/name']
+      ],
+      ['.$ref.my-key', ['$ref', 'my-key']]
+    ])('Parses %s', (source, path) => {
+      expect(parseJsonPath(source)).toEqual(path)
+    })
+
+    it('Throws error for a path without a leading dot', () => {
+      expect(() => parseJsonPath('items')).toThrow(
+        'Invalid json_outputs path: "items". Paths start with "." or "["'
+      )
+    })
+
+    it('Throws error for an invalid segment', () => {
+      expect(() => parseJsonPath('.items[x]')).toThrow(
+        'Invalid json_outputs path: ".items[x]". Unexpected "[x]"'
+      )
+    })
+  })
+
+  describe('parseJsonOutputs', () => {
+    it('Parses name=path lines', () => {
+      expect(parseJsonOutputs('id = .items[0].id\n\nall=.')).toEqual([
+        { name: 'id', source: '.items[0].id', path: ['items', 0, 'id'] },
+        { name: 'all', source: '.', path: [] }
+      ])
+    })
+
+    it('Throws error for a line without an equals sign', () => {
+      expect(() => parseJsonOutputs('.id')).toThrow(
+        'Invalid json_outputs line: ".id"'
+      )
+    })
+
+    it('Throws error for an invalid name', () => {
+      expect(() => parseJsonOutputs('my id=.id')).toThrow(
+        'Invalid output name in json_outputs: "my id"'
+      )
+    })
+
+    it('Throws error for an output of the action', () => {
+      expect(() => parseJsonOutputs('exit_code=.status')).toThrow(
+        'Invalid output name in json_outputs: "exit_code". It is already an output of the action'
+      )
+    })
+  })
+
+  describe('parseStdoutJson', () => {
+    it('Parses a JSON document', () => {
+      expect(parseStdoutJson('{"a": [1]}\n', 'json')).toEqual({ a: [1] })
+    })
+
+    it('Parses JSON lines into an array', () => {
+      expect(parseStdoutJson('{"a":1}\n\n{"a":2}\n', 'jsonl')).toEqual([
+        { a: 1 },
+        { a: 2 }
+      ])
+    })
+
+    it('Reports the line of a JSON lines error', () => {
+      expect(() => parseStdoutJson('{"a":1}\nnope\n', 'jsonl')).toThrow(
+        'Line 2: '
+      )
+    })
+
+    it('Reports where parsing failed without quoting stdout', () => {
+      expect(() => parseStdoutJson('{"a": 1}\n  x', 'json')).toThrow(
+        'Invalid JSON at line 2, column 3'
+      )
+      expect(() => parseStdoutJson('{"a":', 'json')).toThrow(
+        'Unexpected end of JSON input'
+      )
+      expect(() => parseStdoutJson('tok_SECRET123456', 'json')).toThrow(
+        /^Invalid JSON$/
+      )
+    })
+  })
+
+  describe('getJsonOutputValue', () => {
+    const document = {
+      name: 'app',
+      count: 3,
+      enabled: false,
+      missing: null,
+      items: [{ id: 'a' }, { id: 'b', tags: ['x', 'y'] }]
+    }
+
+    it('Formats scalars', () => {
+      expect(getJsonOutputValue(document, ['name'])).toBe('app')
+      expect(getJsonOutputValue(document, ['count'])).toBe('3')
+      expect(getJsonOutputValue(document, ['enabled'])).toBe('false')
+      expect(getJsonOutputValue(document, ['missing'])).toBe('')
+    })
+
+    it('Serializes objects and arrays as JSON', () => {
+      expect(getJsonOutputValue(document, ['items', -1, 'tags'])).toBe(
+        '["x","y"]'
+      )
+      expect(getJsonOutputValue(document, ['items', 0])).toBe('{"id":"a"}')
+    })
+
+    it('Returns an empty string for missing fields', () => {
+      expect(getJsonOutputValue(document, ['items', 5, 'id'])).toBe('')
+      expect(getJsonOutputValue(document, ['name', 'length'])).toBe('')
+      expect(getJsonOutputValue(document, ['items', 'id'])).toBe('')
+      expect(getJsonOutputValue(document, [0])).toBe('')
+    })
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for src/log-group.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+
+const { formatArgv, formatGroupTitle, formatGroupFooter } =
+  await import('../src/log-group.js')
+
+describe('log-group.ts', () => {
+  describe('formatArgv', () => {
+    it.each([
+      [['echo', 'hello'], 'echo hello'],
+      [
+        ['npm', 'run', 'test:unit', '--', '--shard=1/2'],
+        'npm run test:unit -- --shard=1/2'
+      ],
+      [['echo', 'hello world'], "echo 'hello world'"],
+      [['echo', ''], "echo ''"],
+      [['echo', "it's"], "echo 'it'\\''s'"],
+      [['echo', '$HOME', 'a*b'], "echo '$HOME' 'a*b'"]
+    ])('Formats %j', (args, expected) => {
+      expect(formatArgv(args)).toBe(expected)
+    })
+  })
+
+  describe('formatGroupTitle', () => {
+    it('Replaces every {argv}', () => {
+      expect(formatGroupTitle('Run {argv} ({argv})', ['make', 'a b'])).toBe(
+        "Run make 'a b' (make 'a b')"
+      )
+    })
+
+    it('Keeps a title without {argv}', () => {
+      expect(formatGroupTitle('Build', ['make'])).toBe('Build')
+    })
+
+    it('Does not treat $ in the arguments as a replacement pattern', () => {
+      expect(formatGroupTitle('{argv}', ["$'"])).toBe(`'$'\\'''`)
+    })
+  })
+
+  describe('formatGroupFooter', () => {
+    it.each([
+      [
+        { exitCode: 0, exitSignal: null, timedOut: false, durationMs: 1234 },
+        true,
+        '✅ Exited with code 0 in 1.234s'
+      ],
+      [
+        { exitCode: 2, exitSignal: null, timedOut: false, durationMs: 50 },
+        false,
+        '❌ Exited with code 2 in 0.050s'
+      ],
+      [
+        {
+          exitCode: 143,
+          exitSignal: 'SIGTERM',
+          timedOut: true,
+          durationMs: 5000
+        },
+        false,
+        '❌ Timed out (exit code 143) in 5.000s'
+      ],
+      [
+        {
+          exitCode: 137,
+          exitSignal: 'SIGKILL',
+          timedOut: false,
+          durationMs: 1
+        },
+        false,
+        '❌ Terminated by signal SIGKILL (exit code 137) in 0.001s'
+      ]
+    ])('Formats %j', (result, succeeded, expected) => {
+      expect(formatGroupFooter(result, succeeded)).toBe(expected)
+    })
+  })
+})
@@ -6,7 +6,9 @@
  * this test, so that the actual module is not imported.
  */
 import { jest } from '@jest/globals'
-import { readFile } from 'fs/promises'
+import { mkdtemp, readFile, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
 import * as core from '../__fixtures__/core.js'
 
 // Mocks should be declared before the module being tested is imported.
@@ -14,8 +16,22 @@ jest.unstable_mockModule('../src/github-actions.js', () => core)
 
 // The module being tested should be imported dynamically. This ensures that the
 // mocks are used in place of any actual dependencies.
-const { run, executeCommand, parseSuccessExitCodes, parseCommand } =
-  await import('../src/main.js')
+const {
+  run,
+  executeCommand,
+  parseSuccessExitCodes,
+  parseSeconds,
+  parseNonNegativeInteger,
+  parseSignal,
+  parseSuccessSignals,
+  isSuccessful,
+  parseRetryBackoff,
+  getRetryDelayMs,
+  parseStdinSource,
+  parseCommandList,
+  parseArgsInput,
+  parseCommand
+} = await import('../src/main.js')
 
 describe('main.ts', () => {
   beforeEach(() => {
@@ -149,6 +165,1458 @@ describe('main.ts', () => {
       expect(core.setFailed).not.toHaveBeenCalled()
     })
 
+    it('Fails and sets timed_out when the command times out', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sleep 5'
+        if (name === 'timeout_seconds') return '0.2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'stdout_file',
+        expect.stringMatching(/exec-.*\.stdout$/)
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('timed_out', 'true')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'duration_ms',
+        expect.stringMatching(/^\d+$/)
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command timed out after 0.2 seconds'
+      )
+    })
+
+    it('Sets timed_out to false when the command completes', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "Hello World"'
+        if (name === 'timeout_seconds') return '10'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('timed_out', 'false')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Fails for an invalid timeout_signal', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "Hello World"'
+        if (name === 'timeout_signal') return 'SIGNOPE'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid signal: "SIGNOPE"')
+      )
+      expect(core.setOutput).not.toHaveBeenCalled()
+    })
+
+    it('Retries a failing command and reports every attempt', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'false'
+        if (name === 'retries') return '2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('attempts', '3')
+      const attemptOutputs = JSON.parse(
+        core.setOutput.mock.calls.find(
+          ([name]) => name === 'attempt_outputs'
+        )![1]
+      )
+      expect(attemptOutputs).toHaveLength(3)
+      expect(attemptOutputs[2]).toMatchObject({ attempt: 3, exit_code: 1 })
+
+      // Every attempt writes to its own files
+      const stdoutFiles = new Set(
+        attemptOutputs.map((a: { stdout_file: string }) => a.stdout_file)
+      )
+      expect(stdoutFiles.size).toBe(3)
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'stdout_file',
+        attemptOutputs[2].stdout_file
+      )
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command exited with code 1 (after 3 attempts)'
+      )
+    })
+
+    it('Stops retrying once the command succeeds', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const marker = join(dir, 'marker')
+
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return `sh -c "test -f ${marker} || { touch ${marker}; exit 1; }"`
+        if (name === 'retries') return '5'
+        if (name === 'retry_delay_seconds') return '0.01'
+        if (name === 'retry_backoff') return 'linear'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('attempts', '2')
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '0')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Does not retry exit codes outside retry_on_exit_codes', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'false'
+        if (name === 'retries') return '3'
+        if (name === 'retry_on_exit_codes') return '2-5'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('attempts', '1')
+      expect(core.setFailed).toHaveBeenCalledWith('Command exited with code 1')
+    })
+
+    it('Fails when the command is terminated by a signal', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "kill -KILL $$"'
+        if (name === 'success_exit_codes') return '0-255'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '137')
+      expect(core.setOutput).toHaveBeenCalledWith('exit_signal', 'SIGKILL')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command was terminated by signal SIGKILL (exit code 137)'
+      )
+    })
+
+    it('Treats a signal in success_signals as success', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "kill -TERM $$"'
+        if (name === 'success_signals') return 'SIGINT, TERM'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '143')
+      expect(core.setOutput).toHaveBeenCalledWith('exit_signal', 'SIGTERM')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Sets an empty exit_signal when the command exits normally', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "Hello World"'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_signal', '')
+    })
+
+    it('Runs the command in working_directory with env variables', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const envFile = join(dir, 'test.env')
+      await writeFile(envFile, 'FROM_FILE="file value"\nOVERRIDDEN=file\n')
+
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "pwd; echo $FROM_FILE; echo $FROM_INPUT; echo $OVERRIDDEN"'
+        if (name === 'working_directory') return dir
+        if (name === 'env_file') return envFile
+        if (name === 'env') return 'FROM_INPUT=input value\nOVERRIDDEN=input'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      const stdoutContent = await readFile(stdoutFile, 'utf-8')
+      expect(stdoutContent).toBe(`${dir}\nfile value\ninput value\ninput\n`)
+
+      // Variable names are logged, their values are not
+      expect(core.debug).toHaveBeenCalledWith(`Working directory: ${dir}`)
+      expect(core.debug).toHaveBeenCalledWith(
+        'Environment variables set: FROM_FILE, OVERRIDDEN, FROM_INPUT'
+      )
+    })
+
+    it('Passes only allowlisted variables when inherit_env is a list', async () => {
+      process.env['EXEC_ACTION_TEST_HIDDEN'] = 'hidden'
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return '/usr/bin/env'
+        if (name === 'inherit_env') return 'PATH'
+        if (name === 'env') return 'EXTRA=1'
+        return ''
+      })
+
+      await run()
+      delete process.env['EXEC_ACTION_TEST_HIDDEN']
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      const stdoutContent = await readFile(stdoutFile, 'utf-8')
+      expect(stdoutContent.trim().split('\n').sort()).toEqual([
+        'EXTRA=1',
+        `PATH=${process.env.PATH}`
+      ])
+    })
+
+    it('Scrubs the action inputs and runner tokens from the environment', async () => {
+      process.env['INPUT_EXEC_ACTION_TEST'] = 'input'
+      process.env['ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST'] = 'token'
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return '/usr/bin/env'
+        if (name === 'env') return 'EXEC_ACTION_TEST_SET=1'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+      delete process.env['INPUT_EXEC_ACTION_TEST']
+      delete process.env['ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST']
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      const stdoutContent = await readFile(stdoutFile, 'utf-8')
+      expect(stdoutContent).toContain('EXEC_ACTION_TEST_SET=1\n')
+      expect(stdoutContent).toContain(`PATH=${process.env.PATH}\n`)
+      expect(stdoutContent).not.toMatch(/^(INPUT_|ACTIONS_ID_TOKEN_REQUEST_)/m)
+    })
+
+    it('Passes only variables matching the inherit_env patterns', async () => {
+      process.env['EXEC_ACTION_TEST_KEPT'] = 'kept'
+      process.env['INPUT_EXEC_ACTION_TEST'] = 'input'
+      process.env['ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST'] = 'token'
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return '/usr/bin/env'
+        if (name === 'inherit_env')
+          return 'PATH, EXEC_ACTION_TEST_*, INPUT_*, ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+      delete process.env['EXEC_ACTION_TEST_KEPT']
+      delete process.env['INPUT_EXEC_ACTION_TEST']
+      delete process.env['ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST']
+
+      // A scrubbed variable is only passed when listed by its exact name
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      const stdoutContent = await readFile(stdoutFile, 'utf-8')
+      expect(stdoutContent.trim().split('\n').sort()).toEqual([
+        'ACTIONS_ID_TOKEN_REQUEST_EXEC_ACTION_TEST=token',
+        'EXEC_ACTION_TEST_KEPT=kept',
+        `PATH=${process.env.PATH}`
+      ])
+    })
+
+    it('Keeps the whole environment with env_scrub none', async () => {
+      process.env['INPUT_EXEC_ACTION_TEST'] = 'input'
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return '/usr/bin/env'
+        if (name === 'env_scrub') return 'none'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+      delete process.env['INPUT_EXEC_ACTION_TEST']
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toContain(
+        'INPUT_EXEC_ACTION_TEST=input\n'
+      )
+    })
+
+    it('Fails when working_directory does not exist', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'pwd'
+        if (name === 'working_directory') return '/does/not/exist'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Working directory does not exist: /does/not/exist'
+      )
+    })
+
+    it('Feeds the stdin input to the command', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'cat'
+        if (name === 'stdin') return 'line1\nline2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('line1\nline2\n')
+    })
+
+    it('Fails for conflicting stdin inputs', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'cat'
+        if (name === 'stdin') return 'text'
+        if (name === 'stdin_file') return 'input.txt'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Only one of stdin and stdin_file can be set'
+      )
+    })
+
+    it('Sets combined_file when combined_output is enabled', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "Hello World"'
+        if (name === 'combined_output') return 'plain'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'combined_file',
+        expect.stringMatching(/exec-.*\.log$/)
+      )
+    })
+
+    it('Sets an empty combined_file by default', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "Hello World"'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('combined_file', '')
+    })
+
+    it('Reports output byte counts and truncation', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'seq 1 1000'
+        if (name === 'max_output_bytes') return '100'
+        if (name === 'truncate_strategy') return 'tail'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stdout_bytes', '3893')
+      expect(core.setOutput).toHaveBeenCalledWith('stdout_truncated', 'true')
+      expect(core.setOutput).toHaveBeenCalledWith('stderr_bytes', '0')
+      expect(core.setOutput).toHaveBeenCalledWith('stderr_truncated', 'false')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Redacts secrets from the output files and masks them', async () => {
+      process.env['EXEC_ACTION_TEST_TOKEN'] = 'env-secret-value'
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo $EXEC_ACTION_TEST_TOKEN hunter2 id=42"'
+        if (name === 'redact') return 'hunter2\nregex:id=\\d+'
+        if (name === 'redact_env') return 'EXEC_ACTION_TEST_*'
+        if (name === 'redact_files') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+      delete process.env['EXEC_ACTION_TEST_TOKEN']
+
+      expect(core.setSecret).toHaveBeenCalledWith('hunter2')
+      expect(core.setSecret).toHaveBeenCalledWith('env-secret-value')
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('*** *** ***\n')
+    })
+
+    it('Fails for an invalid redact pattern', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo test'
+        if (name === 'redact') return 'regex:(unclosed'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid redact pattern: "(unclosed"')
+      )
+    })
+
+    it('Sets small outputs inline', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "echo out; echo err >&2"'
+        if (name === 'inline_outputs') return 'stdout,stderr'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stdout', 'out')
+      expect(core.setOutput).toHaveBeenCalledWith('stderr', 'err')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'stdout_inline_truncated',
+        'false'
+      )
+      expect(core.setOutput).not.toHaveBeenCalledWith('stdout', 'out\n')
+    })
+
+    it('Redacts secrets from the inline outputs', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo key=secret123 token=ghp_abcdef'
+        if (name === 'inline_outputs') return 'stdout'
+        if (name === 'redact') return 'secret123\nregex:ghp_[a-z]+'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stdout', 'key=*** token=***')
+    })
+
+    it('Leaves outputs above inline_max_bytes empty', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'seq 1 1000'
+        if (name === 'inline_outputs') return 'stdout'
+        if (name === 'inline_max_bytes') return '100'
+        if (name === 'inline_trim_newlines') return 'false'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stdout', '')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'stdout_inline_truncated',
+        'true'
+      )
+      expect(core.setOutput).not.toHaveBeenCalledWith(
+        'stderr',
+        expect.anything()
+      )
+    })
+
+    it('Leaves outputs truncated by max_output_bytes empty', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'seq 1 1000'
+        if (name === 'inline_outputs') return 'stdout'
+        if (name === 'max_output_bytes') return '10'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stdout', '')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'stdout_inline_truncated',
+        'true'
+      )
+    })
+
+    it('Writes a summary on failure', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo hunter2 out; echo err >&2; exit 3"'
+        if (name === 'summary') return 'on_failure'
+        if (name === 'summary_lines') return '1'
+        if (name === 'redact') return 'hunter2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.addSummary).toHaveBeenCalledTimes(1)
+      const markdown = core.addSummary.mock.calls[0][0]
+      expect(markdown).toContain('- **Failure:** Command exited with code 3')
+      expect(markdown).toContain('```text\n*** out\n```')
+      expect(markdown).toContain('```text\nerr\n```')
+      expect(markdown).not.toContain('hunter2')
+    })
+
+    it('Redacts the command quoted in the failure message', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands')
+          return 'echo a\nsh -c "exit 1" --token=hunter2secret'
+        if (name === 'summary') return 'always'
+        if (name === 'redact') return 'hunter2secret'
+        return ''
+      })
+
+      await run()
+
+      const markdown = core.addSummary.mock.calls[0][0]
+      expect(markdown).toContain(
+        '- **Failure:** Command 2 of 2 ("sh -c "exit 1" --token=***") exited with code 1'
+      )
+      expect(markdown).not.toContain('hunter2secret')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.not.stringContaining('hunter2secret')
+      )
+    })
+
+    it('Does not write a summary on success with on_failure', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo test'
+        if (name === 'summary') return 'on_failure'
+        return ''
+      })
+
+      await run()
+
+      expect(core.addSummary).not.toHaveBeenCalled()
+    })
+
+    it('Never includes hidden output in the summary', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo sensitive'
+        if (name === 'summary') return 'always'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const markdown = core.addSummary.mock.calls[0][0]
+      expect(markdown).toContain('_Output is hidden by hide_outputs._')
+      expect(markdown).not.toContain('```')
+    })
+
+    it('Annotates problems matched in the output', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo src/a.ts:3:7: error: bad hunter2; echo src/b.ts:1:1: warning: meh >&2"'
+        if (name === 'problem_matchers')
+          return JSON.stringify({
+            problemMatcher: [
+              {
+                owner: 'test',
+                pattern: [
+                  {
+                    regexp: '^(.+):(\\d+):(\\d+): (error|warning): (.*)$',
+                    file: 1,
+                    line: 2,
+                    column: 3,
+                    severity: 4,
+                    message: 5
+                  }
+                ]
+              }
+            ]
+          })
+        if (name === 'hide_outputs') return 'true'
+        if (name === 'redact') return 'hunter2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.error).toHaveBeenCalledWith('bad ***', {
+        title: undefined,
+        file: 'src/a.ts',
+        startLine: 3,
+        endLine: undefined,
+        startColumn: 7,
+        endColumn: undefined
+      })
+      expect(core.warning).toHaveBeenCalledWith(
+        'meh',
+        expect.objectContaining({ file: 'src/b.ts', startLine: 1 })
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('error_count', '1')
+      expect(core.setOutput).toHaveBeenCalledWith('warning_count', '1')
+    })
+
+    it('Reads problem matchers from a file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const matcherFile = join(dir, 'matcher.json')
+      await writeFile(
+        matcherFile,
+        JSON.stringify({
+          problemMatcher: [
+            { owner: 'todo', pattern: [{ regexp: '^TODO: (.*)$', message: 1 }] }
+          ]
+        })
+      )
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo TODO: fix'
+        if (name === 'problem_matchers') return matcherFile
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.error).toHaveBeenCalledWith('fix', expect.anything())
+      expect(core.setOutput).toHaveBeenCalledWith('error_count', '1')
+      expect(core.setOutput).toHaveBeenCalledWith('warning_count', '0')
+    })
+
+    it('Extracts outputs from stdout and stderr', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo version 1.2.3; echo id=7 >&2; echo id=8 >&2"'
+        if (name === 'extract')
+          return 'version=^version (\\S+)$\nstderr:id=^id=(?<number>\\d+)$'
+        if (name === 'extract_mode') return 'all'
+        if (name === 'extract_separator') return ','
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('version', '1.2.3')
+      expect(core.setOutput).toHaveBeenCalledWith('id', '7,8')
+      expect(core.setOutput).toHaveBeenCalledWith('id_number', '7,8')
+    })
+
+    it('Fails for an invalid extract regex before running', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo test'
+        if (name === 'extract') return 'version=(unclosed'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid extract pattern for "version"')
+      )
+      expect(core.setOutput).not.toHaveBeenCalled()
+    })
+
+    it('Sets outputs from JSON printed to stdout', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return `echo '{"items": [{"id": 42, "tags": ["a"]}]}'`
+        if (name === 'stdout_format') return 'json'
+        if (name === 'json_outputs')
+          return 'id=.items[0].id\ntags=.items[0].tags'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('id', '42')
+      expect(core.setOutput).toHaveBeenCalledWith('tags', '["a"]')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Fails when stdout is not valid JSON', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo not json'
+        if (name === 'stdout_format') return 'jsonl'
+        if (name === 'json_outputs') return 'id=[0].id'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('id', '')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to parse stdout as jsonl: Line 1:')
+      )
+    })
+
+    it('Warns when stdout is not valid JSON with json_error warn', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo not json'
+        if (name === 'stdout_format') return 'json'
+        if (name === 'json_error') return 'warn'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to parse stdout as json:')
+      )
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Does not quote hidden stdout in the JSON error', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'cat'
+        if (name === 'stdin') return 'tok_SECRET123456'
+        if (name === 'stdout_format') return 'json'
+        if (name === 'hide_outputs') return 'true'
+        if (name === 'summary') return 'always'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Failed to parse stdout as json: Invalid JSON'
+      )
+      expect(core.addSummary).toHaveBeenCalledWith(
+        expect.not.stringContaining('SECRET')
+      )
+    })
+
+    it('Does not copy workflow commands from stdout into the JSON error', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'cat'
+        if (name === 'stdin') return '{}\n::error::pwned\n'
+        if (name === 'stdout_format') return 'json'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Failed to parse stdout as json: Invalid JSON at line 2, column 1'
+      )
+    })
+
+    it('Fails for json_outputs without stdout_format', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo {}'
+        if (name === 'json_outputs') return 'id=.id'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'json_outputs requires stdout_format to be "json" or "jsonl"'
+      )
+    })
+
+    it('Fails when the command writes to stderr with fail_on_stderr', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "echo oops >&2"'
+        if (name === 'fail_on_stderr') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '0')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'failure_reason',
+        'fail_on_stderr'
+      )
+      expect(core.setFailed).toHaveBeenCalledWith('Command wrote to stderr')
+    })
+
+    it('Fails when the output matches fail_if_output_matches', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo ok; echo ERROR: disk full hunter2"'
+        if (name === 'fail_if_output_matches') return '^FATAL\n^ERROR:'
+        if (name === 'redact') return 'hunter2'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'failure_reason',
+        'fail_if_output_matches'
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Output matched "^ERROR:": ` ERROR: disk full *** `'
+      )
+    })
+
+    it('Does not quote hidden output in the failure message or summary', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return 'sh -c "echo ERROR: db password is $DB_PASSWORD"'
+        if (name === 'env') return 'DB_PASSWORD=hunter2'
+        if (name === 'fail_if_output_matches') return '^ERROR:'
+        if (name === 'hide_outputs') return 'true'
+        if (name === 'summary') return 'always'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith('Output matched "^ERROR:"')
+      const summary = core.addSummary.mock.calls[0][0]
+      expect(summary).toContain('- **Failure:** Output matched "^ERROR:"\n')
+      expect(summary).not.toContain('hunter2')
+    })
+
+    it('Fails when the output does not match require_output_matches', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo tests passed'
+        if (name === 'require_output_matches') return 'passed\n^Done$'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'failure_reason',
+        'require_output_matches'
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Output did not match "^Done$"'
+      )
+    })
+
+    it('Reports the exit code before output rules', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "echo oops >&2; exit 2"'
+        if (name === 'fail_on_stderr') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('failure_reason', 'exit_code')
+      expect(core.setFailed).toHaveBeenCalledWith('Command exited with code 2')
+    })
+
+    it('Sets an empty failure_reason on success', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo Done'
+        if (name === 'require_output_matches') return '^Done$'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('failure_reason', '')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Runs the command with a shell', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'printf "a\\nb\\n" | wc -l\nexit 3'
+        if (name === 'shell') return 'bash'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect((await readFile(stdoutFile, 'utf-8')).trim()).toBe('2')
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '3')
+      expect(core.setFailed).toHaveBeenCalledWith('Command exited with code 3')
+    })
+
+    it('Runs the command with a custom shell template', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo "$0" > /dev/null; echo ok 1>&2'
+        if (name === 'shell') return 'sh -e {0}'
+        if (name === 'hide_outputs') return 'true'
+        if (name === 'inline_outputs') return 'stderr'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('stderr', 'ok')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Runs a sequence of commands', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'echo one\necho two'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(results).toEqual([
+        expect.objectContaining({
+          command: 'echo one',
+          teardown: false,
+          success: true,
+          exit_code: 0,
+          attempts: 1
+        }),
+        expect.objectContaining({ command: 'echo two', success: true })
+      ])
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(stdoutFile).toBe(results[1].stdout_file)
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('two\n')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Stops a sequence at the first failure and runs the teardown', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands')
+          return 'echo build\nsh -c "exit 4"\necho package'
+        if (name === 'teardown') return 'echo cleanup'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(results.map((r: { command: string }) => r.command)).toEqual([
+        'echo build',
+        'sh -c "exit 4"',
+        'echo cleanup'
+      ])
+      expect(results[2].teardown).toBe(true)
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '4')
+      expect(core.setOutput).toHaveBeenCalledWith('failure_reason', 'exit_code')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command 2 of 3 ("sh -c "exit 4"") exited with code 4'
+      )
+      expect(core.debug).toHaveBeenCalledWith(
+        'Command failed, skipping the remaining commands'
+      )
+    })
+
+    it('Does not report skipping commands when the last one fails', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'echo build\nsh -c "exit 4"'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '4')
+      expect(core.debug).not.toHaveBeenCalledWith(
+        'Command failed, skipping the remaining commands'
+      )
+    })
+
+    it('Runs every command without fail_fast', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'sh -c "exit 1"\necho still runs'
+        if (name === 'fail_fast') return 'false'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(results).toHaveLength(2)
+      expect(results[1].success).toBe(true)
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '1')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command 1 of 2 ("sh -c "exit 1"") exited with code 1'
+      )
+    })
+
+    it('Fails when only the teardown fails', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo ok'
+        if (name === 'teardown') return 'sh -c "exit 2"'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '0')
+      expect(core.setOutput).toHaveBeenCalledWith('failure_reason', 'teardown')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Teardown command ("sh -c "exit 2"") exited with code 2'
+      )
+    })
+
+    it('Runs the teardown when a command cannot be started', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const marker = join(dir, 'marker')
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'nonexistent-command-xyz'
+        if (name === 'teardown') return `touch ${marker}`
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).not.toHaveBeenCalled()
+      await expect(stat(marker)).resolves.toBeDefined()
+    })
+
+    it('Only warns about failures with continue_on_error', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "exit 3"'
+        if (name === 'continue_on_error') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('failure_reason', 'exit_code')
+      expect(core.warning).toHaveBeenCalledWith('Command exited with code 3')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Runs commands in parallel', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const marker = join(dir, 'marker')
+      core.getInput.mockImplementation((name: string) => {
+        // The first command only finishes once the second one has run
+        if (name === 'commands')
+          return `sh -c "until [ -f ${marker} ]; do sleep 0.05; done; echo first"\ntouch ${marker}`
+        if (name === 'parallel') return 'true'
+        if (name === 'timeout_seconds') return '10'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(results).toHaveLength(2)
+      expect(results[0]).toEqual(
+        expect.objectContaining({ success: true, timed_out: false })
+      )
+      expect(results[0].stdout_file).not.toBe(results[1].stdout_file)
+      expect(await readFile(results[0].stdout_file, 'utf-8')).toBe('first\n')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Limits the number of commands running at once', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const lock = join(dir, 'lock')
+      // Fails if another command holds the lock
+      const command = `sh -c "test ! -f ${lock} && touch ${lock} && sleep 0.2 && rm ${lock}"`
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return `${command}\n${command}\n${command}`
+        if (name === 'parallel') return 'true'
+        if (name === 'max_parallel') return '1'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.debug).toHaveBeenCalledWith('Parallel: true, max parallel: 1')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Labels the output of commands running in parallel', async () => {
+      const writeSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true)
+
+      try {
+        core.getInput.mockImplementation((name: string) => {
+          if (name === 'commands') return 'echo one\n/bin/echo two'
+          if (name === 'parallel') return 'true'
+          return ''
+        })
+
+        await run()
+
+        const logged = writeSpy.mock.calls
+          .map(([chunk]) => chunk.toString())
+          .join('')
+        expect(logged).toContain('[1:echo] one\n')
+        expect(logged).toContain('[2:echo] two\n')
+      } finally {
+        writeSpy.mockRestore()
+      }
+    })
+
+    it('Fails when any command running in parallel fails', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'echo ok\nsh -c "exit 5"'
+        if (name === 'parallel') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(results.map((r: { success: boolean }) => r.success)).toEqual([
+        true,
+        false
+      ])
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '5')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Command 2 of 2 ("sh -c "exit 5"") exited with code 5'
+      )
+    })
+
+    it('Forwards signals to every command running in parallel', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'sleep 5\nsleep 5'
+        if (name === 'parallel') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      const running = run()
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      process.emit('SIGTERM', 'SIGTERM')
+      await running
+
+      const results = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'results')![1]
+      )
+      expect(
+        results.map((r: { exit_signal: string }) => r.exit_signal)
+      ).toEqual(['SIGTERM', 'SIGTERM'])
+    })
+
+    it('Runs the args without parsing them', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'args') return '["printf", "%s|", "a \\"b\\"", ""]'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('a "b"||')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Reads the args without trimming them', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'args') return 'printf\n[%s]\n  padded  \n'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.getInput).toHaveBeenCalledWith('args', {
+        trimWhitespace: false
+      })
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('[  padded  ]')
+    })
+
+    it('Fails when args is used with a shell', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'args') return 'echo'
+        if (name === 'shell') return 'bash'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'args cannot be used with shell, which runs a command line'
+      )
+    })
+
+    it('Splits the command like a POSIX shell with parse_mode posix', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return "printf '[%s]' 'a\\b' \"\" \\\n  c"
+        if (name === 'parse_mode') return 'posix'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe('[a\\b][][c]')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Expands variables from the command environment with expand_env', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command')
+          return `printf '[%s]' $GREETING "\${MISSING:-fallback}" '$GREETING'`
+        if (name === 'env') return 'GREETING=hello world'
+        if (name === 'expand_env') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      const stdoutFile = core.setOutput.mock.calls.find(
+        ([name]) => name === 'stdout_file'
+      )![1]
+      expect(await readFile(stdoutFile, 'utf-8')).toBe(
+        '[hello world][fallback][$GREETING]'
+      )
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Fails when a required variable is not set', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'deploy ${TARGET:?must be set}'
+        if (name === 'expand_env') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith('TARGET: must be set')
+    })
+
+    it('Sets the timing and resource usage outputs', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sleep 0.2'
+        return ''
+      })
+
+      const before = Date.now()
+      await run()
+      const after = Date.now()
+
+      const outputs = Object.fromEntries(core.setOutput.mock.calls)
+      const startedAt = Date.parse(outputs.started_at)
+      const finishedAt = Date.parse(outputs.finished_at)
+      expect(outputs.started_at).toMatch(/^\d{4}-\d\d-\d\dT[\d:.]+Z$/)
+      expect(startedAt).toBeGreaterThanOrEqual(before)
+      expect(finishedAt).toBeLessThanOrEqual(after)
+      expect(finishedAt - startedAt).toBe(Number(outputs.duration_ms))
+      expect(Number(outputs.user_cpu_ms)).toBeLessThan(200)
+      expect(outputs.system_cpu_ms).toMatch(/^\d+$/)
+      expect(Number(outputs.max_rss_kb)).toBeGreaterThan(0)
+
+      const [commandResult] = JSON.parse(outputs.results)
+      expect(commandResult).toEqual(
+        expect.objectContaining({
+          started_at: outputs.started_at,
+          finished_at: outputs.finished_at,
+          user_cpu_ms: Number(outputs.user_cpu_ms),
+          system_cpu_ms: Number(outputs.system_cpu_ms),
+          max_rss_kb: Number(outputs.max_rss_kb)
+        })
+      )
+    })
+
+    it('Forwards signals to the processes started by the command', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        // The background sleep would hold the output open if it survived
+        if (name === 'command') return 'sh -c "sleep 5 & wait"'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      const running = run()
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      process.emit('SIGTERM', 'SIGTERM')
+      await running
+
+      expect(core.setOutput).toHaveBeenCalledWith('exit_signal', 'SIGTERM')
+      expect(
+        Number(
+          core.setOutput.mock.calls.find(([name]) => name === 'duration_ms')![1]
+        )
+      ).toBeLessThan(3000)
+    })
+
+    it('Terminates the processes left by the command with kill_orphans', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "sleep 5 & echo started"'
+        if (name === 'kill_orphans') return 'true'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.debug).toHaveBeenCalledWith(
+        expect.stringMatching(/^Reaped orphaned processes: \d+$/)
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('exit_code', '0')
+      expect(
+        Number(
+          core.setOutput.mock.calls.find(([name]) => name === 'duration_ms')![1]
+        )
+      ).toBeLessThan(3000)
+    })
+
+    it('Wraps the output in a log group with a footer', async () => {
+      const writeSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true)
+
+      try {
+        core.getInput.mockImplementation((name: string) => {
+          if (name === 'command') return "echo 'hello world'"
+          if (name === 'log_group') return 'Run {argv}'
+          return ''
+        })
+
+        await run()
+
+        expect(core.startGroup).toHaveBeenCalledWith("Run echo 'hello world'")
+        expect(core.info).toHaveBeenCalledWith(
+          expect.stringMatching(/^✅ Exited with code 0 in \d+\.\d{3}s$/)
+        )
+        expect(core.endGroup).toHaveBeenCalledTimes(1)
+
+        // The output is written inside the group
+        const outputCall = writeSpy.mock.calls.findIndex(
+          ([chunk]) => chunk.toString() === 'hello world\n'
+        )
+        const outputOrder = writeSpy.mock.invocationCallOrder[outputCall]
+        expect(outputOrder).toBeGreaterThan(
+          core.startGroup.mock.invocationCallOrder[0]
+        )
+        expect(outputOrder).toBeLessThan(core.info.mock.invocationCallOrder[0])
+      } finally {
+        writeSpy.mockRestore()
+      }
+    })
+
+    it('Ends the log group of a failed command', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'sh -c "exit 3"'
+        if (name === 'log_group') return '{argv}'
+        return ''
+      })
+
+      await run()
+
+      expect(core.startGroup).toHaveBeenCalledWith("sh -c 'exit 3'")
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringMatching(/^❌ Exited with code 3 in /)
+      )
+      expect(core.endGroup).toHaveBeenCalledTimes(1)
+    })
+
+    it('Redacts secrets from the log group title', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo token=abc123'
+        if (name === 'log_group') return 'Run {argv}'
+        if (name === 'redact') return 'abc123'
+        return ''
+      })
+
+      await run()
+
+      expect(core.startGroup).toHaveBeenCalledWith('Run echo token=***')
+    })
+
+    it.each([
+      ['hide_outputs', 'true'],
+      ['parallel', 'true']
+    ])('Does not group the output with %s', async (input, value) => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'commands') return 'true\ntrue'
+        if (name === 'log_group') return '{argv}'
+        if (name === input) return value
+        return ''
+      })
+
+      await run()
+
+      expect(core.startGroup).not.toHaveBeenCalled()
+      expect(core.endGroup).not.toHaveBeenCalled()
+    })
+
+    it('Stops workflow commands in the output with allow_workflow_commands', async () => {
+      const resume = jest.fn<() => void>()
+      core.stopCommands.mockReturnValue(resume)
+      const writeSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true)
+
+      try {
+        core.getInput.mockImplementation((name: string) => {
+          if (name === 'command') return "printf '::add-mask::x\\nlast'"
+          if (name === 'parse_mode') return 'posix'
+          if (name === 'allow_workflow_commands') return 'false'
+          return ''
+        })
+
+        await run()
+
+        expect(core.stopCommands).toHaveBeenCalledTimes(1)
+        expect(resume).toHaveBeenCalledTimes(1)
+        // The output is forwarded while commands are stopped, and its last
+        // line is ended so that the next command starts a line
+        const logged = writeSpy.mock.calls.map(([chunk]) => chunk.toString())
+        expect(logged.join('')).toContain('::add-mask::x\nlast\n')
+        const lastOutput =
+          writeSpy.mock.invocationCallOrder[
+            logged.findIndex((chunk) => chunk.includes('last'))
+          ]
+        expect(lastOutput).toBeGreaterThan(
+          core.stopCommands.mock.invocationCallOrder[0]
+        )
+        expect(lastOutput).toBeLessThan(resume.mock.invocationCallOrder[0])
+        expect(core.setOutput).toHaveBeenCalledWith('exit_code', '0')
+      } finally {
+        writeSpy.mockRestore()
+      }
+    })
+
+    it('Allows workflow commands in the output by default', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        if (name === 'command') return 'echo hello'
+        if (name === 'hide_outputs') return 'true'
+        return ''
+      })
+
+      await run()
+
+      expect(core.stopCommands).not.toHaveBeenCalled()
+    })
+
     it('Handles execution errors', async () => {
       // Use parseCommand with invalid input to trigger an error
       core.getInput.mockImplementation((name: string) => {
@@ -167,6 +1635,80 @@ describe('main.ts', () => {
     })
   })
 
+  describe('parseCommandList', () => {
+    it('Returns the single command', () => {
+      expect(parseCommandList('npm test', '')).toEqual(['npm test'])
+    })
+
+    it('Returns one command per non-empty line', () => {
+      expect(
+        parseCommandList('', 'npm ci\n\n  npm test  \r\nnpm pack')
+      ).toEqual(['npm ci', 'npm test', 'npm pack'])
+    })
+
+    it('Throws error when both inputs are set', () => {
+      expect(() => parseCommandList('npm test', 'npm ci')).toThrow(
+        'Only one of command and commands can be set'
+      )
+    })
+
+    it('Throws error when neither input is set', () => {
+      expect(() => parseCommandList('', '')).toThrow(
+        'Input required and not supplied: command'
+      )
+    })
+
+    it('Returns the args as a single command', () => {
+      expect(parseCommandList('', '', '["echo", "a b"]')).toEqual([
+        ['echo', 'a b']
+      ])
+    })
+
+    it('Ignores args made only of whitespace', () => {
+      expect(parseCommandList('npm test', '', ' \n')).toEqual(['npm test'])
+    })
+
+    it('Throws error when command and args are set', () => {
+      expect(() => parseCommandList('echo', '', 'echo')).toThrow(
+        'Only one of command and args can be set'
+      )
+      expect(() => parseCommandList('echo', 'echo', 'echo')).toThrow(
+        'Only one of command, commands and args can be set'
+      )
+    })
+  })
+
+  describe('parseArgsInput', () => {
+    it('Parses a JSON array', () => {
+      expect(
+        parseArgsInput(' ["printf", "%s\\n", "it\'s \\"quoted\\"", ""] ')
+      ).toEqual(['printf', '%s\n', 'it\'s "quoted"', ''])
+    })
+
+    it('Takes one argument per line literally', () => {
+      expect(parseArgsInput('printf\n  %s "x"\n\nC:\\path\\\n\n')).toEqual([
+        'printf',
+        '  %s "x"',
+        '',
+        'C:\\path\\'
+      ])
+    })
+
+    it('Keeps the trailing whitespace of the last argument', () => {
+      expect(parseArgsInput('echo\nlast  \n')).toEqual(['echo', 'last  '])
+    })
+
+    it('Throws error for invalid JSON', () => {
+      expect(() => parseArgsInput('["echo",')).toThrow('Invalid args:')
+    })
+
+    it('Throws error for a JSON array of other values', () => {
+      expect(() => parseArgsInput('["exit", 1]')).toThrow(
+        'Expected a JSON array of strings'
+      )
+    })
+  })
+
   describe('parseCommand', () => {
     it('Parses simple command', () => {
       const result = parseCommand('echo hello')
@@ -221,6 +1763,23 @@ describe('main.ts', () => {
         'incomplete escape sequence'
       )
     })
+
+    it('Expands environment variables outside single quotes', () => {
+      const env = { HOME: '/home/runner', SPACED: 'a b' }
+      expect(
+        parseCommand('ls $HOME "${SPACED}" \'$HOME\' \\$HOME', 'legacy', env)
+      ).toEqual(['ls', '/home/runner', 'a b', '$HOME', '$HOME'])
+      expect(parseCommand('ls $HOME')).toEqual(['ls', '$HOME'])
+    })
+
+    it('Follows POSIX quoting rules in posix mode', () => {
+      expect(parseCommand('printf \'%s\\n\' ""', 'posix')).toEqual([
+        'printf',
+        '%s\\n',
+        ''
+      ])
+      expect(parseCommand('printf \'%s\\n\' ""')).toEqual(['printf', '%sn'])
+    })
   })
 
   describe('parseSuccessExitCodes', () => {
@@ -277,6 +1836,248 @@ describe('main.ts', () => {
     })
   })
 
+  describe('parseSeconds', () => {
+    it('Parses whole seconds', () => {
+      expect(parseSeconds('30', 'timeout_seconds')).toBe(30)
+    })
+
+    it('Parses fractional seconds', () => {
+      expect(parseSeconds('0.5', 'timeout_seconds')).toBe(0.5)
+    })
+
+    it('Returns the default for empty input', () => {
+      expect(parseSeconds('', 'kill_grace_seconds', 10)).toBe(10)
+      expect(parseSeconds('  ', 'timeout_seconds')).toBe(0)
+    })
+
+    it('Throws error for non-numeric input', () => {
+      expect(() => parseSeconds('10s', 'timeout_seconds')).toThrow(
+        'Invalid timeout_seconds: "10s"'
+      )
+    })
+
+    it('Throws error for negative input', () => {
+      expect(() => parseSeconds('-1', 'kill_grace_seconds')).toThrow(
+        'Invalid kill_grace_seconds: "-1"'
+      )
+    })
+  })
+
+  describe('parseNonNegativeInteger', () => {
+    it('Parses an integer', () => {
+      expect(parseNonNegativeInteger('3', 'retries')).toBe(3)
+    })
+
+    it('Returns the default for empty input', () => {
+      expect(parseNonNegativeInteger('', 'retries')).toBe(0)
+    })
+
+    it('Throws error for fractional input', () => {
+      expect(() => parseNonNegativeInteger('1.5', 'retries')).toThrow(
+        'Invalid retries: "1.5"'
+      )
+    })
+
+    it('Throws error for negative input', () => {
+      expect(() => parseNonNegativeInteger('-2', 'retries')).toThrow(
+        'Expected a non-negative integer'
+      )
+    })
+  })
+
+  describe('parseSignal', () => {
+    it('Parses a signal name', () => {
+      expect(parseSignal('SIGINT')).toBe('SIGINT')
+    })
+
+    it('Adds the SIG prefix and normalizes case', () => {
+      expect(parseSignal('term')).toBe('SIGTERM')
+    })
+
+    it('Throws error for an unknown signal', () => {
+      expect(() => parseSignal('SIGFOO')).toThrow('Invalid signal: "SIGFOO"')
+    })
+  })
+
+  describe('parseSuccessSignals', () => {
+    it('Returns an empty set for empty input', () => {
+      expect(parseSuccessSignals('')).toEqual(new Set())
+    })
+
+    it('Parses a list of signals', () => {
+      expect(parseSuccessSignals('SIGTERM, int')).toEqual(
+        new Set(['SIGTERM', 'SIGINT'])
+      )
+    })
+
+    it('Throws error for an unknown signal', () => {
+      expect(() => parseSuccessSignals('SIGTERM,BOGUS')).toThrow(
+        'Invalid signal: "BOGUS"'
+      )
+    })
+  })
+
+  describe('isSuccessful', () => {
+    const criteria = {
+      exitCodes: new Set([0, 143]),
+      signals: new Set<NodeJS.Signals>(['SIGINT'])
+    }
+
+    it('Checks the exit code of a normal exit', () => {
+      expect(
+        isSuccessful(
+          { exitCode: 0, exitSignal: null, timedOut: false },
+          criteria
+        )
+      ).toBe(true)
+      expect(
+        isSuccessful(
+          { exitCode: 1, exitSignal: null, timedOut: false },
+          criteria
+        )
+      ).toBe(false)
+    })
+
+    it('Checks only the signal of a signal termination', () => {
+      expect(
+        isSuccessful(
+          { exitCode: 130, exitSignal: 'SIGINT', timedOut: false },
+          criteria
+        )
+      ).toBe(true)
+      expect(
+        isSuccessful(
+          { exitCode: 143, exitSignal: 'SIGTERM', timedOut: false },
+          criteria
+        )
+      ).toBe(false)
+    })
+
+    it('Never treats a timed out command as success', () => {
+      expect(
+        isSuccessful(
+          { exitCode: 0, exitSignal: null, timedOut: true },
+          criteria
+        )
+      ).toBe(false)
+    })
+
+    it('Never treats output that broke an output rule as success', () => {
+      expect(
+        isSuccessful(
+          {
+            exitCode: 0,
+            exitSignal: null,
+            timedOut: false,
+            outputFailure: {
+              reason: 'fail_on_stderr',
+              message: 'Command wrote to stderr'
+            }
+          },
+          criteria
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe('parseRetryBackoff', () => {
+    it('Defaults to constant', () => {
+      expect(parseRetryBackoff('')).toBe('constant')
+    })
+
+    it('Parses each strategy case-insensitively', () => {
+      expect(parseRetryBackoff('constant')).toBe('constant')
+      expect(parseRetryBackoff('Linear')).toBe('linear')
+      expect(parseRetryBackoff('EXPONENTIAL')).toBe('exponential')
+    })
+
+    it('Throws error for an unknown strategy', () => {
+      expect(() => parseRetryBackoff('fibonacci')).toThrow(
+        'Invalid retry_backoff: "fibonacci"'
+      )
+    })
+  })
+
+  describe('getRetryDelayMs', () => {
+    it('Uses the same delay for constant backoff', () => {
+      const policy = { delaySeconds: 2, backoff: 'constant' as const }
+      expect(getRetryDelayMs(policy, 1)).toBe(2000)
+      expect(getRetryDelayMs(policy, 4)).toBe(2000)
+    })
+
+    it('Grows the delay linearly for linear backoff', () => {
+      const policy = { delaySeconds: 2, backoff: 'linear' as const }
+      expect(getRetryDelayMs(policy, 1)).toBe(2000)
+      expect(getRetryDelayMs(policy, 3)).toBe(6000)
+    })
+
+    it('Doubles the delay with jitter for exponential backoff', () => {
+      const policy = { delaySeconds: 1, backoff: 'exponential' as const }
+      expect(getRetryDelayMs(policy, 1, () => 0)).toBe(500)
+      expect(getRetryDelayMs(policy, 1, () => 0.999999)).toBe(1000)
+      expect(getRetryDelayMs(policy, 3, () => 0)).toBe(2000)
+      expect(getRetryDelayMs(policy, 3, () => 0.5)).toBe(3000)
+    })
+  })
+
+  describe('parseStdinSource', () => {
+    it('Defaults to inherit', () => {
+      expect(parseStdinSource('', '', '')).toEqual({ mode: 'inherit' })
+    })
+
+    it('Infers text mode from the stdin input', () => {
+      expect(parseStdinSource('', 'hello', '')).toEqual({
+        mode: 'text',
+        text: 'hello\n'
+      })
+    })
+
+    it('Infers file mode from the stdin_file input', () => {
+      expect(parseStdinSource('', '', 'input.txt')).toEqual({
+        mode: 'file',
+        path: 'input.txt'
+      })
+    })
+
+    it('Allows empty text in text mode', () => {
+      expect(parseStdinSource('text', '', '')).toEqual({
+        mode: 'text',
+        text: ''
+      })
+    })
+
+    it('Parses null mode', () => {
+      expect(parseStdinSource('NULL', '', '')).toEqual({ mode: 'null' })
+    })
+
+    it('Throws error when both stdin and stdin_file are set', () => {
+      expect(() => parseStdinSource('', 'hello', 'input.txt')).toThrow(
+        'Only one of stdin and stdin_file can be set'
+      )
+    })
+
+    it('Throws error for input that does not match the mode', () => {
+      expect(() => parseStdinSource('null', 'hello', '')).toThrow(
+        'stdin and stdin_file cannot be used with stdin_mode "null"'
+      )
+      expect(() => parseStdinSource('text', '', 'input.txt')).toThrow(
+        'stdin_file cannot be used with stdin_mode "text"'
+      )
+    })
+
+    it('Throws error when file mode has no stdin_file', () => {
+      expect(() => parseStdinSource('file', '', '')).toThrow(
+        'stdin_file is required when stdin_mode is "file"'
+      )
+    })
+
+    it('Throws error for an unknown mode', () => {
+      expect(() => parseStdinSource('pipe', '', '')).toThrow(
+        'Invalid stdin_mode: "pipe"'
+      )
+    })
+  })
+
   describe('executeCommand', () => {
     it('Captures stdout from a command to file', async () => {
       const result = await executeCommand('echo "test output"')
@@ -309,6 +2110,30 @@ describe('main.ts', () => {
       expect(result.exitCode).toBe(42)
     })
 
+    it('Reports the arguments the command was run with', async () => {
+      const result = await executeCommand('echo "a b" c')
+
+      expect(result.args).toEqual(['echo', 'a b', 'c'])
+    })
+
+    it('Runs a script with a shell', async () => {
+      const result = await executeCommand('echo "$((6 * 7))" && exit 5', {
+        shell: {
+          template: 'sh -e {0}',
+          extension: '.sh',
+          prologue: '',
+          epilogue: ''
+        }
+      })
+
+      expect(result.args).toEqual(['sh', '-e', expect.stringMatching(/\.sh$/)])
+      expect(await readFile(result.args[2], 'utf-8')).toBe(
+        'echo "$((6 * 7))" && exit 5\n'
+      )
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe('42\n')
+      expect(result.exitCode).toBe(5)
+    })
+
     it('Handles multi-line output', async () => {
       // Use sh to run multiple echo commands
       const result = await executeCommand('sh -c "echo line1 && echo line2"')
@@ -381,5 +2206,223 @@ describe('main.ts', () => {
       expect(stderrContent).toContain('stderr message')
       expect(stderrContent).not.toContain('stdout message')
     })
+
+    it('Reports the duration of the command', async () => {
+      const result = await executeCommand('sleep 0.2')
+
+      expect(result.timedOut).toBe(false)
+      expect(result.durationMs).toBeGreaterThanOrEqual(150)
+    })
+
+    it('Terminates a command that exceeds the timeout', async () => {
+      const result = await executeCommand(
+        'sh -c "echo before timeout && exec sleep 5"',
+        { timeoutSeconds: 0.3 }
+      )
+
+      expect(result.timedOut).toBe(true)
+      expect(result.exitSignal).toBe('SIGTERM')
+      expect(result.exitCode).toBe(143)
+      expect(result.durationMs).toBeLessThan(5000)
+
+      // Output written before the timeout is still flushed to the file
+      const stdoutContent = await readFile(result.stdoutFile, 'utf-8')
+      expect(stdoutContent).toContain('before timeout')
+    })
+
+    it('Sends SIGKILL when the command ignores the timeout signal', async () => {
+      const result = await executeCommand(
+        `sh -c "trap '' TERM; exec sleep 5"`,
+        { timeoutSeconds: 0.2, killGraceSeconds: 0.2 }
+      )
+
+      expect(result.timedOut).toBe(true)
+      expect(result.exitSignal).toBe('SIGKILL')
+      expect(result.exitCode).toBe(137)
+      expect(result.durationMs).toBeLessThan(5000)
+      expect(core.debug).toHaveBeenCalledWith(
+        expect.stringContaining('sending SIGKILL')
+      )
+    })
+
+    it('Times out when a background process holds the output open', async () => {
+      const result = await executeCommand('sh -c "sleep 20 & echo started"', {
+        timeoutSeconds: 0.3,
+        killGraceSeconds: 0.3
+      })
+
+      // The command itself exited, but its output only ended at the timeout
+      expect(result.timedOut).toBe(true)
+      expect(result.exitCode).toBe(0)
+      expect(result.durationMs).toBeLessThan(5000)
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe('started\n')
+    })
+
+    it('Streams a file to stdin', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-test-'))
+      const inputFile = join(dir, 'input.json')
+      await writeFile(inputFile, '{"name": "exec-action"}')
+
+      const result = await executeCommand('cat', {
+        stdin: { mode: 'file', path: inputFile }
+      })
+
+      expect(result.exitCode).toBe(0)
+      const stdoutContent = await readFile(result.stdoutFile, 'utf-8')
+      expect(stdoutContent).toBe('{"name": "exec-action"}')
+    })
+
+    it('Gives the command an empty stdin in null mode', async () => {
+      const result = await executeCommand('cat', { stdin: { mode: 'null' } })
+
+      expect(result.exitCode).toBe(0)
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe('')
+    })
+
+    it('Ignores a command that exits without reading stdin', async () => {
+      const result = await executeCommand('true', {
+        stdin: { mode: 'text', text: 'x'.repeat(1024 * 1024) }
+      })
+
+      expect(result.exitCode).toBe(0)
+    })
+
+    it('Rejects when the stdin file does not exist', async () => {
+      await expect(
+        executeCommand('cat', {
+          stdin: { mode: 'file', path: '/does/not/exist' }
+        })
+      ).rejects.toThrow('ENOENT')
+    })
+
+    it('Interleaves stdout and stderr in the combined output file', async () => {
+      const result = await executeCommand(
+        'sh -c "echo out1; sleep 0.1; echo err1 >&2; sleep 0.1; echo out2"',
+        { combinedFormat: 'prefixed' }
+      )
+
+      expect(result.combinedFile).toMatch(/exec-.*\.log$/)
+      expect(result.combinedFile!.replace(/\.log$/, '')).toBe(
+        result.stdoutFile.replace(/\.stdout$/, '')
+      )
+
+      const combinedContent = await readFile(result.combinedFile!, 'utf-8')
+      const lines = combinedContent.trimEnd().split('\n')
+      expect(lines).toHaveLength(3)
+      expect(lines[0]).toMatch(
+        /^\d{4}-\d\d-\d\dT[\d:]+\.\d{9}Z \[stdout\] out1$/
+      )
+      expect(lines[1]).toMatch(/\[stderr\] err1$/)
+      expect(lines[2]).toMatch(/\[stdout\] out2$/)
+
+      // The separate files are still written
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe('out1\nout2\n')
+    })
+
+    it('Writes JSON Lines to the combined output file', async () => {
+      const result = await executeCommand(
+        'sh -c "echo out; sleep 0.1; printf err >&2"',
+        { combinedFormat: 'jsonl' }
+      )
+
+      const combinedContent = await readFile(result.combinedFile!, 'utf-8')
+      const entries = combinedContent
+        .trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+      expect(entries).toEqual([
+        { time: expect.any(String), stream: 'stdout', line: 'out' },
+        { time: expect.any(String), stream: 'stderr', line: 'err' }
+      ])
+    })
+
+    it('Does not create a combined output file by default', async () => {
+      const result = await executeCommand('echo test')
+
+      expect(result.combinedFile).toBeNull()
+    })
+
+    it('Limits the size of the output files while draining the pipes', async () => {
+      const result = await executeCommand(
+        'sh -c "head -c 1000000 /dev/zero; head -c 1000000 /dev/zero >&2"',
+        {
+          hideOutputs: true,
+          maxOutputBytes: 1000,
+          combinedFormat: 'plain'
+        }
+      )
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdoutBytes).toBe(1000000)
+      expect(result.stderrBytes).toBe(1000000)
+      expect(result.stdoutTruncated).toBe(true)
+      expect(result.stderrTruncated).toBe(true)
+      expect((await stat(result.stdoutFile)).size).toBe(1000)
+      expect((await stat(result.stderrFile)).size).toBe(1000)
+      expect((await stat(result.combinedFile!)).size).toBe(2000)
+    })
+
+    it('Keeps the head and tail of the output', async () => {
+      const result = await executeCommand('seq 1 1000', {
+        hideOutputs: true,
+        maxOutputBytes: 20,
+        truncateStrategy: 'head_and_tail'
+      })
+
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe(
+        '1\n2\n3\n4\n5\n\n999\n1000\n'
+      )
+    })
+
+    it('Counts output bytes without a limit', async () => {
+      const result = await executeCommand('echo hello')
+
+      expect(result.stdoutBytes).toBe(6)
+      expect(result.stdoutTruncated).toBe(false)
+    })
+
+    it('Redacts secrets from the log but not from the files by default', async () => {
+      const writeSpy = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true)
+
+      try {
+        const result = await executeCommand('echo token=abc123', {
+          redaction: { literals: ['abc123'], patterns: [] },
+          combinedFormat: 'plain'
+        })
+
+        const logged = writeSpy.mock.calls
+          .map(([chunk]) => chunk.toString())
+          .join('')
+        expect(logged).toContain('token=***')
+        expect(logged).not.toContain('abc123')
+        expect(await readFile(result.stdoutFile, 'utf-8')).toBe(
+          'token=abc123\n'
+        )
+        expect(await readFile(result.combinedFile!, 'utf-8')).toBe(
+          'token=abc123\n'
+        )
+      } finally {
+        writeSpy.mockRestore()
+      }
+    })
+
+    it('Redacts secrets from every file when redactFiles is true', async () => {
+      const result = await executeCommand(
+        'sh -c "echo out abc123; echo err abc123 >&2"',
+        {
+          hideOutputs: true,
+          redaction: { literals: ['abc123'], patterns: [] },
+          redactFiles: true,
+          combinedFormat: 'plain'
+        }
+      )
+
+      expect(await readFile(result.stdoutFile, 'utf-8')).toBe('out ***\n')
+      expect(await readFile(result.stderrFile, 'utf-8')).toBe('err ***\n')
+      const combinedContent = await readFile(result.combinedFile!, 'utf-8')
+      expect(combinedContent).not.toContain('abc123')
+    })
   })
 })
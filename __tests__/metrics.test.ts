@@ -0,0 +1,66 @@
+/**
+ * Unit tests for src/metrics.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { spawn } from 'child_process'
+import { once } from 'events'
+
+const { startResourceMonitor } = await import('../src/metrics.js')
+
+// Burns about 300ms of user CPU time
+const BUSY_LOOP =
+  'const end = process.cpuUsage().user + 300000; while (process.cpuUsage().user < end) {}'
+
+describe('metrics.ts', () => {
+  describe('startResourceMonitor', () => {
+    it('Measures the CPU time and memory of a command', async () => {
+      const child = spawn(process.execPath, ['-e', BUSY_LOOP])
+      const monitor = startResourceMonitor(child.pid)
+      await once(child, 'exit')
+
+      const usage = monitor.stop()
+      expect(usage.userCpuMs).toBeGreaterThanOrEqual(250)
+      expect(usage.systemCpuMs).toBeGreaterThanOrEqual(0)
+      expect(usage.maxRssKb).toBeGreaterThan(1000)
+    })
+
+    it('Includes the descendants the command waited for', async () => {
+      const child = spawn('sh', [
+        '-c',
+        `"${process.execPath}" -e '${BUSY_LOOP}'`
+      ])
+      const monitor = startResourceMonitor(child.pid)
+      await once(child, 'exit')
+
+      expect(monitor.stop().userCpuMs).toBeGreaterThanOrEqual(250)
+    })
+
+    it('Samples commands that run at the same time', async () => {
+      const first = spawn(process.execPath, ['-e', BUSY_LOOP])
+      const firstMonitor = startResourceMonitor(first.pid)
+      const second = spawn('sleep', ['0.5'])
+      const secondMonitor = startResourceMonitor(second.pid)
+      await Promise.all([once(first, 'exit'), once(second, 'exit')])
+
+      // The first command's time after its last sample is missed
+      expect(firstMonitor.stop().userCpuMs).toBeGreaterThanOrEqual(100)
+      expect(secondMonitor.stop().userCpuMs).toBeLessThan(100)
+    })
+
+    it('Returns the same usage when stopped again', async () => {
+      const child = spawn('true')
+      const monitor = startResourceMonitor(child.pid)
+      await once(child, 'exit')
+
+      expect(monitor.stop()).toBe(monitor.stop())
+    })
+
+    it('Reports no memory use for a command that was not spawned', () => {
+      expect(startResourceMonitor(undefined).stop()).toEqual({
+        userCpuMs: 0,
+        systemCpuMs: 0,
+        maxRssKb: null
+      })
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for src/output-limit.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { Readable } from 'stream'
+import { text } from 'stream/consumers'
+
+const { parseTruncateStrategy, createOutputLimiter } =
+  await import('../src/output-limit.js')
+
+/**
+ * Feed chunks through a limiter and collect what it passes on.
+ */
+async function limit(
+  chunks: string[],
+  maxBytes: number,
+  strategy: 'head' | 'tail' | 'head_and_tail'
+) {
+  const limiter = createOutputLimiter(maxBytes, strategy)
+  const output = await text(
+    Readable.from(chunks.map((chunk) => Buffer.from(chunk))).pipe(
+      limiter.stream
+    )
+  )
+  return {
+    output,
+    totalBytes: limiter.totalBytes(),
+    truncated: limiter.truncated()
+  }
+}
+
+describe('output-limit.ts', () => {
+  describe('parseTruncateStrategy', () => {
+    it('Defaults to head', () => {
+      expect(parseTruncateStrategy('')).toBe('head')
+    })
+
+    it('Parses each strategy case-insensitively', () => {
+      expect(parseTruncateStrategy('head')).toBe('head')
+      expect(parseTruncateStrategy('TAIL')).toBe('tail')
+      expect(parseTruncateStrategy('Head_And_Tail')).toBe('head_and_tail')
+    })
+
+    it('Throws error for an unknown strategy', () => {
+      expect(() => parseTruncateStrategy('middle')).toThrow(
+        'Invalid truncate_strategy: "middle"'
+      )
+    })
+  })
+
+  describe('createOutputLimiter', () => {
+    it('Passes everything through when unlimited', async () => {
+      const result = await limit(['hello ', 'world'], 0, 'head')
+
+      expect(result).toEqual({
+        output: 'hello world',
+        totalBytes: 11,
+        truncated: false
+      })
+    })
+
+    it('Keeps the first bytes with the head strategy', async () => {
+      const result = await limit(['abc', 'defg', 'hij'], 5, 'head')
+
+      expect(result).toEqual({
+        output: 'abcde',
+        totalBytes: 10,
+        truncated: true
+      })
+    })
+
+    it('Keeps the last bytes with the tail strategy', async () => {
+      const result = await limit(['abc', 'defg', 'hij'], 5, 'tail')
+
+      expect(result).toEqual({
+        output: 'fghij',
+        totalBytes: 10,
+        truncated: true
+      })
+    })
+
+    it('Keeps both ends with the head_and_tail strategy', async () => {
+      const result = await limit(['abc', 'defg', 'hij'], 5, 'head_and_tail')
+
+      expect(result).toEqual({
+        output: 'abcij',
+        totalBytes: 10,
+        truncated: true
+      })
+    })
+
+    it.each(['head', 'tail', 'head_and_tail'] as const)(
+      'Does not truncate output within the limit (%s)',
+      async (strategy) => {
+        const result = await limit(['abc', 'de'], 5, strategy)
+
+        expect(result).toEqual({
+          output: 'abcde',
+          totalBytes: 5,
+          truncated: false
+        })
+      }
+    )
+
+    it('Keeps the tail across many small chunks', async () => {
+      const chunks = Array.from({ length: 100 }, (_, i) => `${i % 10}`)
+      const result = await limit(chunks, 12, 'tail')
+
+      expect(result.output).toBe('890123456789')
+      expect(result.totalBytes).toBe(100)
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for src/output-rules.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+
+const { parseOutputPatterns, hasOutputRules, createOutputChecker } =
+  await import('../src/output-rules.js')
+
+const noRules = { failOnStderr: false, failIfMatches: [], requireMatches: [] }
+
+describe('output-rules.ts', () => {
+  describe('parseOutputPatterns', () => {
+    it('Parses one pattern per line', () => {
+      expect(
+        parseOutputPatterns('^ERROR:\n\n  FATAL  ', 'test').map((p) => p.source)
+      ).toEqual(['^ERROR:', 'FATAL'])
+    })
+
+    it('Throws error for an invalid pattern', () => {
+      expect(() =>
+        parseOutputPatterns('ok\n(unclosed', 'fail_if_output_matches')
+      ).toThrow('Invalid fail_if_output_matches pattern: "(unclosed".')
+    })
+  })
+
+  describe('hasOutputRules', () => {
+    it('Detects enabled rules', () => {
+      expect(hasOutputRules(noRules)).toBe(false)
+      expect(hasOutputRules({ ...noRules, failOnStderr: true })).toBe(true)
+      expect(hasOutputRules({ ...noRules, requireMatches: [/a/] })).toBe(true)
+    })
+  })
+
+  describe('createOutputChecker', () => {
+    it('Passes output that follows the rules', () => {
+      const checker = createOutputChecker({
+        failOnStderr: true,
+        failIfMatches: [/ERROR/],
+        requireMatches: [/^Done$/]
+      })
+
+      checker.check('stdout', 'working')
+      checker.check('stdout', 'Done')
+
+      expect(checker.failure()).toBeNull()
+    })
+
+    it('Fails on any stderr line, even an empty one', () => {
+      const checker = createOutputChecker({ ...noRules, failOnStderr: true })
+
+      checker.check('stderr', '')
+
+      expect(checker.failure()).toEqual({
+        reason: 'fail_on_stderr',
+        message: 'Command wrote to stderr'
+      })
+    })
+
+    it('Ignores stderr without fail_on_stderr', () => {
+      const checker = createOutputChecker(noRules)
+
+      checker.check('stderr', 'warning')
+
+      expect(checker.failure()).toBeNull()
+    })
+
+    it('Reports the first line matching a failure pattern', () => {
+      const checker = createOutputChecker({
+        ...noRules,
+        failIfMatches: [/^ERROR:/]
+      })
+
+      checker.check('stdout', 'ERROR: first')
+      checker.check('stderr', 'ERROR: second')
+
+      expect(checker.failure()).toEqual({
+        reason: 'fail_if_output_matches',
+        message: 'Output matched "^ERROR:": ` ERROR: first `'
+      })
+    })
+
+    it('Shortens long matched lines', () => {
+      const checker = createOutputChecker({ ...noRules, failIfMatches: [/x/] })
+
+      checker.check('stdout', 'x'.repeat(300))
+
+      expect(checker.failure()?.message).toBe(
+        `Output matched "x": \` ${'x'.repeat(200)}... \``
+      )
+    })
+
+    it('Quotes matched lines as a code span', () => {
+      const checker = createOutputChecker({ ...noRules, failIfMatches: [/x/] })
+
+      checker.check('stdout', 'x `code` **bold**')
+
+      expect(checker.failure()?.message).toBe(
+        'Output matched "x": `` x `code` **bold** ``'
+      )
+    })
+
+    it('Does not quote the matched line when quoteLines is false', () => {
+      const checker = createOutputChecker(
+        { ...noRules, failIfMatches: [/ERROR/] },
+        false
+      )
+
+      checker.check('stdout', 'ERROR: password is hunter2')
+
+      expect(checker.failure()).toEqual({
+        reason: 'fail_if_output_matches',
+        message: 'Output matched "ERROR"'
+      })
+    })
+
+    it('Reports the first required pattern without a match', () => {
+      const checker = createOutputChecker({
+        ...noRules,
+        requireMatches: [/a/, /b/, /c/]
+      })
+
+      checker.check('stderr', 'a')
+
+      expect(checker.failure()).toEqual({
+        reason: 'require_output_matches',
+        message: 'Output did not match "b"'
+      })
+    })
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for src/problem-matcher.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+
+const { parseProblemMatchers, createProblemMatcher } =
+  await import('../src/problem-matcher.js')
+
+const paths = { cwd: '/work/repo/pkg', workspace: '/work/repo' }
+
+const tscMatcher = JSON.stringify({
+  problemMatcher: [
+    {
+      owner: 'tsc',
+      pattern: [
+        {
+          regexp:
+            '^([^\\s].*)\\((\\d+),(\\d+)\\): (error|warning) (TS\\d+): (.*)$',
+          file: 1,
+          line: 2,
+          column: 3,
+          severity: 4,
+          code: 5,
+          message: 6
+        }
+      ]
+    }
+  ]
+})
+
+const eslintMatcher = JSON.stringify({
+  problemMatcher: [
+    {
+      owner: 'eslint-stylish',
+      pattern: [
+        { regexp: '^([^\\s].*)$', file: 1 },
+        {
+          regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning)\\s+(.*)$',
+          line: 1,
+          column: 2,
+          severity: 3,
+          message: 4,
+          loop: true
+        }
+      ]
+    }
+  ]
+})
+
+describe('problem-matcher.ts', () => {
+  describe('parseProblemMatchers', () => {
+    it('Parses a matcher', () => {
+      const [matcher] = parseProblemMatchers(tscMatcher)
+
+      expect(matcher.owner).toBe('tsc')
+      expect(matcher.severity).toBe('error')
+      expect(matcher.patterns).toHaveLength(1)
+      expect(matcher.patterns[0]).toMatchObject({
+        file: 1,
+        line: 2,
+        message: 6,
+        loop: false
+      })
+    })
+
+    it('Parses the default severity', () => {
+      const [matcher] = parseProblemMatchers(
+        JSON.stringify({
+          problemMatcher: [
+            {
+              owner: 'lint',
+              severity: 'Warning',
+              pattern: [{ regexp: '(.*)', message: 1 }]
+            }
+          ]
+        })
+      )
+
+      expect(matcher.severity).toBe('warning')
+    })
+
+    it.each([
+      ['not json', 'Invalid problem_matchers: Unexpected token'],
+      ['{}', 'expected an object with a "problemMatcher" array'],
+      ['{"problemMatcher":[{"pattern":[]}]}', 'every matcher needs an owner'],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[]}]}',
+        '"a" must have at least one pattern'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"message":1}]}]}',
+        'every pattern of "a" must have a regexp'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"regexp":"(","message":1}]}]}',
+        'invalid regexp in "a"'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"regexp":"(.*)","message":"1"}]}]}',
+        '"message" of "a" must be a group number'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"regexp":"(.*)","file":1}]}]}',
+        '"a" must capture a message'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"regexp":"(.*)","message":1,"loop":true}]}]}',
+        'the loop pattern of "a" must follow another pattern'
+      ],
+      [
+        '{"problemMatcher":[{"owner":"a","pattern":[{"regexp":"a","loop":true},{"regexp":"(.*)","message":1}]}]}',
+        'only the last pattern of "a" can loop'
+      ]
+    ])('Throws error for %s', (json, message) => {
+      expect(() => parseProblemMatchers(json)).toThrow(message)
+    })
+  })
+
+  describe('createProblemMatcher', () => {
+    it('Matches single-line problems', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(tscMatcher),
+        paths
+      )
+
+      expect(match('src/a.ts(3,7): error TS2322: Type mismatch.')).toEqual([
+        {
+          owner: 'tsc',
+          severity: 'error',
+          message: 'Type mismatch.',
+          file: 'pkg/src/a.ts',
+          line: 3,
+          column: 7,
+          code: 'TS2322'
+        }
+      ])
+      expect(match('Found 1 error.')).toEqual([])
+    })
+
+    it('Takes the severity from the line', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(tscMatcher),
+        paths
+      )
+
+      expect(match('a.ts(1,1): warning TS6133: Unused.\r')).toEqual([
+        expect.objectContaining({ severity: 'warning', message: 'Unused.' })
+      ])
+    })
+
+    it('Keeps files outside the workspace absolute', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(tscMatcher),
+        paths
+      )
+
+      expect(match('/tmp/a.ts(1,1): error TS1: Bad')).toEqual([
+        expect.objectContaining({ file: '/tmp/a.ts' })
+      ])
+    })
+
+    it('Matches multi-line problems with a loop', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(eslintMatcher),
+        paths
+      )
+
+      expect(match('/work/repo/src/main.ts')).toEqual([])
+      expect(match('  1:10  error  Missing semicolon')).toEqual([
+        {
+          owner: 'eslint-stylish',
+          severity: 'error',
+          message: 'Missing semicolon',
+          file: 'src/main.ts',
+          line: 1,
+          column: 10
+        }
+      ])
+      expect(match('  4:2  warning  Unexpected console')).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          file: 'src/main.ts',
+          line: 4
+        })
+      ])
+      // A line that does not continue the problem starts over
+      expect(match('/work/repo/src/other.ts')).toEqual([])
+      expect(match('  2:1  error  Oops')).toEqual([
+        expect.objectContaining({ file: 'src/other.ts', line: 2 })
+      ])
+    })
+
+    it('Ignores matches without a message', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(
+          JSON.stringify({
+            problemMatcher: [
+              {
+                owner: 'a',
+                pattern: [{ regexp: '^error:? ?(.*)$', message: 1 }]
+              }
+            ]
+          })
+        ),
+        paths
+      )
+
+      expect(match('error')).toEqual([])
+      expect(match('error: bad')).toEqual([
+        expect.objectContaining({ message: 'bad' })
+      ])
+    })
+
+    it('Resolves files relative to fromPath', () => {
+      const match = createProblemMatcher(
+        parseProblemMatchers(
+          JSON.stringify({
+            problemMatcher: [
+              {
+                owner: 'a',
+                pattern: [
+                  {
+                    regexp: '^(.*)>(.*): (.*)$',
+                    fromPath: 1,
+                    file: 2,
+                    message: 3
+                  }
+                ]
+              }
+            ]
+          })
+        ),
+        paths
+      )
+
+      expect(match('lib/project.csproj>Foo.cs: bad')).toEqual([
+        expect.objectContaining({ file: 'pkg/lib/Foo.cs' })
+      ])
+    })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for src/proc.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { spawn } from 'child_process'
+import { once } from 'events'
+
+const {
+  readProcessTimes,
+  readPeakRssKb,
+  listDescendantPids,
+  listProcessGroup
+} = await import('../src/proc.js')
+
+describe('proc.ts', () => {
+  describe('readProcessTimes', () => {
+    it('Reads the CPU times of the action', () => {
+      const times = readProcessTimes('self')
+
+      expect(times).toEqual({
+        user: expect.any(Number),
+        system: expect.any(Number),
+        childrenUser: expect.any(Number),
+        childrenSystem: expect.any(Number)
+      })
+      expect(times!.user + times!.system).toBeGreaterThan(0)
+    })
+
+    it('Returns null for a process that does not exist', () => {
+      expect(readProcessTimes(2 ** 30)).toBeNull()
+    })
+  })
+
+  describe('readPeakRssKb', () => {
+    it('Reads the peak memory use of a process', () => {
+      expect(readPeakRssKb(process.pid)).toBeGreaterThan(1000)
+    })
+
+    it('Returns null for a process that does not exist', () => {
+      expect(readPeakRssKb(2 ** 30)).toBeNull()
+    })
+  })
+
+  describe('listDescendantPids', () => {
+    it('Lists children and grandchildren', async () => {
+      const child = spawn('sh', ['-c', 'sleep 5 & sleep 5 & wait'], {
+        detached: true,
+        stdio: 'ignore'
+      })
+      try {
+        // Wait for the shell to start both sleeps
+        let descendants: number[] = []
+        for (let i = 0; i < 50 && descendants.length < 3; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          descendants = listDescendantPids(process.pid)
+        }
+
+        expect(descendants).toContain(child.pid)
+        expect(descendants).toHaveLength(3)
+        expect(listDescendantPids(child.pid!)).toHaveLength(2)
+      } finally {
+        process.kill(-child.pid!, 'SIGKILL')
+        await once(child, 'exit')
+      }
+    })
+
+    it('Returns an empty list for a process that does not exist', () => {
+      expect(listDescendantPids(2 ** 30)).toEqual([])
+    })
+  })
+  describe('listProcessGroup', () => {
+    it('Lists the running processes in a group', async () => {
+      const child = spawn('sleep', ['5'], { detached: true })
+      try {
+        expect(listProcessGroup(child.pid!)).toEqual([child.pid])
+        expect(listProcessGroup(process.pid)).not.toContain(child.pid)
+      } finally {
+        child.kill('SIGKILL')
+        await once(child, 'exit')
+      }
+    })
+
+    it('Returns an empty list for a group that does not exist', () => {
+      expect(listProcessGroup(2 ** 30)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for src/process-group.ts
+ */
+import { jest } from '@jest/globals'
+import { spawn } from 'child_process'
+import { once } from 'events'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('../src/github-actions.js', () => core)
+
+const { signalCommand, sweepOrphans } = await import('../src/process-group.js')
+const { listProcessGroup } = await import('../src/proc.js')
+
+/**
+ * Wait until a process group has the given number of running processes.
+ */
+async function waitForGroupSize(pgid: number, size: number): Promise<void> {
+  for (let i = 0; i < 100 && listProcessGroup(pgid)!.length !== size; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  expect(listProcessGroup(pgid)).toHaveLength(size)
+}
+
+describe('process-group.ts', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('signalCommand', () => {
+    it('Signals every process in the command group', async () => {
+      const child = spawn('sh', ['-c', 'sleep 5 & wait'], { detached: true })
+      await waitForGroupSize(child.pid!, 2)
+
+      const exited = once(child, 'exit')
+      signalCommand(child, 'SIGTERM')
+
+      expect(await exited).toEqual([null, 'SIGTERM'])
+      await waitForGroupSize(child.pid!, 0)
+    })
+
+    it('Signals only the command when it has no group of its own', async () => {
+      const child = spawn('sleep', ['5'])
+      const exited = once(child, 'exit')
+
+      signalCommand(child, 'SIGTERM')
+
+      expect(await exited).toEqual([null, 'SIGTERM'])
+    })
+  })
+
+  describe('sweepOrphans', () => {
+    it('Terminates the processes left by the command', async () => {
+      const child = spawn('sh', ['-c', 'sleep 5 & echo $!'], {
+        detached: true,
+        stdio: ['ignore', 'pipe', 'ignore']
+      })
+      const [output] = await Promise.all([
+        once(child.stdout!, 'data'),
+        once(child, 'exit')
+      ])
+      const orphan = Number(output.toString())
+
+      expect(await sweepOrphans(child.pid!, 5)).toEqual([orphan])
+      expect(listProcessGroup(child.pid!)).toEqual([])
+      expect(core.debug).toHaveBeenCalledWith(
+        `Reaped orphaned processes: ${orphan}`
+      )
+    })
+
+    it('Sends SIGKILL to processes still running after the grace period', async () => {
+      const child = spawn('sh', ['-c', "(trap '' TERM; sleep 5) &"], {
+        detached: true
+      })
+      await once(child, 'exit')
+      await waitForGroupSize(child.pid!, 1)
+
+      await sweepOrphans(child.pid!, 0.2)
+
+      expect(core.debug).toHaveBeenCalledWith(
+        'Processes still running 0.2s after SIGTERM, sending SIGKILL'
+      )
+      await waitForGroupSize(child.pid!, 0)
+    })
+
+    it('Does nothing when no processes are left', async () => {
+      const child = spawn('true', [], { detached: true })
+      await once(child, 'exit')
+
+      expect(await sweepOrphans(child.pid!, 5)).toEqual([])
+      expect(core.debug).not.toHaveBeenCalled()
+    })
+  })
+})
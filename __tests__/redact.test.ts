@@ -0,0 +1,149 @@
+/**
+ * Unit tests for src/redact.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { Readable } from 'stream'
+import { text } from 'stream/consumers'
+
+const {
+  REDACTED,
+  parseRedactInput,
+  hasRedactionRules,
+  redact,
+  createRedactor
+} = await import('../src/redact.js')
+
+/**
+ * Feed chunks through a redactor and collect its output.
+ */
+async function redactChunks(
+  chunks: Array<string | Buffer>,
+  rules: { literals: string[]; patterns: RegExp[] }
+): Promise<string> {
+  return text(
+    Readable.from(
+      chunks.map((chunk) =>
+        typeof chunk === 'string' ? Buffer.from(chunk) : chunk
+      )
+    ).pipe(createRedactor(rules))
+  )
+}
+
+describe('redact.ts', () => {
+  describe('parseRedactInput', () => {
+    it('Parses literal values and patterns', () => {
+      const rules = parseRedactInput('s3cr3t\n\n  regex:ghp_[A-Za-z0-9]+  ')
+
+      expect(rules.literals).toEqual(['s3cr3t'])
+      expect(rules.patterns).toEqual([/ghp_[A-Za-z0-9]+/g])
+    })
+
+    it('Returns empty rules for empty input', () => {
+      const rules = parseRedactInput('')
+
+      expect(rules).toEqual({ literals: [], patterns: [] })
+      expect(hasRedactionRules(rules)).toBe(false)
+    })
+
+    it('Throws error for an invalid pattern', () => {
+      expect(() => parseRedactInput('regex:[unclosed')).toThrow(
+        'Invalid redact pattern: "[unclosed"'
+      )
+    })
+
+    it('Throws error for a pattern that matches an empty string', () => {
+      expect(() => parseRedactInput('regex:a*')).toThrow(
+        'Invalid redact pattern: "a*". It matches an empty string'
+      )
+    })
+  })
+
+  describe('redact', () => {
+    it('Replaces literal values and pattern matches', () => {
+      const rules = parseRedactInput('hunter2\nregex:token=\\w+')
+
+      expect(redact('password hunter2, token=abc123 ok', rules)).toBe(
+        `password ${REDACTED}, ${REDACTED} ok`
+      )
+    })
+
+    it('Replaces every occurrence', () => {
+      const rules = parseRedactInput('xy')
+
+      expect(redact('xy-xy-xxyy', rules)).toBe('***-***-x***y')
+    })
+
+    it('Merges overlapping matches', () => {
+      const rules = parseRedactInput('abc\nbcd')
+
+      expect(redact('abcde', rules)).toBe('***e')
+    })
+  })
+
+  describe('createRedactor', () => {
+    it('Redacts a literal split across chunks', async () => {
+      const rules = parseRedactInput('supersecret')
+
+      expect(await redactChunks(['key: super', 'sec', 'ret!\n'], rules)).toBe(
+        'key: ***!\n'
+      )
+    })
+
+    it('Redacts a pattern split across chunks', async () => {
+      const rules = parseRedactInput('regex:ghp_[a-z0-9]+')
+
+      expect(
+        await redactChunks(['token ghp_ab', 'c123 end\nnext ghp_x'], rules)
+      ).toBe('token *** end\nnext ***')
+    })
+
+    it('Redacts a multi-line literal', async () => {
+      const rules = parseRedactInput('')
+      rules.literals.push('line1\nline2')
+
+      expect(await redactChunks(['a line1\n', 'line2 b\n'], rules)).toBe(
+        'a *** b\n'
+      )
+    })
+
+    it('Handles multi-byte characters split across chunks', async () => {
+      const rules = parseRedactInput('clé')
+      const bytes = Buffer.from('la clé est là\n')
+
+      expect(
+        await redactChunks([bytes.subarray(0, 6), bytes.subarray(6)], rules)
+      ).toBe('la *** est là\n')
+    })
+
+    it('Passes text through without rules', async () => {
+      expect(
+        await redactChunks(['plain ', 'text'], { literals: [], patterns: [] })
+      ).toBe('plain text')
+    })
+
+    it('Emits complete lines before the stream ends', async () => {
+      const redactor = createRedactor(parseRedactInput('regex:\\d+'))
+      const chunks: string[] = []
+      redactor.on('data', (chunk: Buffer) => chunks.push(chunk.toString()))
+
+      redactor.write('first 1\nsecond 2')
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(chunks).toEqual(['first ***\n'])
+
+      redactor.end()
+      await new Promise((resolve) => redactor.on('end', resolve))
+      expect(chunks).toEqual(['first ***\n', 'second ***'])
+    })
+
+    it('Emits very long lines without waiting for their end', async () => {
+      const redactor = createRedactor(parseRedactInput('regex:secret'))
+      let emitted = ''
+      redactor.on('data', (chunk: Buffer) => (emitted += chunk.toString()))
+
+      redactor.write('x'.repeat(70 * 1024))
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(emitted.length).toBe(70 * 1024)
+      redactor.end()
+    })
+  })
+})
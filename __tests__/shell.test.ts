@@ -0,0 +1,76 @@
+/**
+ * Unit tests for src/shell.ts
+ */
+import { afterEach, describe, expect, it } from '@jest/globals'
+import { mkdtempSync, readFileSync, statSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, extname, join } from 'path'
+
+const { parseShell, writeShellScript } = await import('../src/shell.js')
+
+describe('shell.ts', () => {
+  describe('parseShell', () => {
+    it('Defaults to no shell', () => {
+      expect(parseShell('')).toBeNull()
+      expect(parseShell('None')).toBeNull()
+    })
+
+    it('Parses the built-in shells', () => {
+      expect(parseShell('bash')?.template).toBe(
+        'bash --noprofile --norc -eo pipefail {0}'
+      )
+      expect(parseShell('SH')?.template).toBe('sh -e {0}')
+      expect(parseShell('pwsh')).toMatchObject({
+        template: `pwsh -command ". '{0}'"`,
+        extension: '.ps1'
+      })
+    })
+
+    it('Parses a custom template', () => {
+      expect(parseShell('python3 -u {0}')).toEqual({
+        template: 'python3 -u {0}',
+        extension: '',
+        prologue: '',
+        epilogue: ''
+      })
+    })
+
+    it('Throws error for a custom template without {0}', () => {
+      expect(() => parseShell('zsh')).toThrow('Invalid shell: "zsh"')
+    })
+  })
+
+  describe('writeShellScript', () => {
+    const originalRunnerTemp = process.env.RUNNER_TEMP
+
+    afterEach(() => {
+      if (originalRunnerTemp === undefined) {
+        delete process.env.RUNNER_TEMP
+      } else {
+        process.env.RUNNER_TEMP = originalRunnerTemp
+      }
+    })
+
+    it('Writes the command to a private script in RUNNER_TEMP', () => {
+      const tempDir = mkdtempSync(join(tmpdir(), 'exec-action-shell-'))
+      process.env.RUNNER_TEMP = tempDir
+
+      const scriptPath = writeShellScript('echo a | wc -c', parseShell('bash')!)
+
+      expect(dirname(scriptPath)).toBe(tempDir)
+      expect(extname(scriptPath)).toBe('.sh')
+      expect(readFileSync(scriptPath, 'utf8')).toBe('echo a | wc -c\n')
+      expect(statSync(scriptPath).mode & 0o777).toBe(0o600)
+    })
+
+    it('Wraps PowerShell scripts to stop on errors', () => {
+      const script = readFileSync(
+        writeShellScript('Get-Date', parseShell('pwsh')!),
+        'utf8'
+      )
+
+      expect(script).toMatch(/^\$ErrorActionPreference = 'stop'\nGet-Date\n/)
+      expect(script).toContain('exit $LASTEXITCODE')
+    })
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for src/summary.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+import { mkdtemp, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const { parseSummaryMode, readTailLines, formatSummary } =
+  await import('../src/summary.js')
+
+describe('summary.ts', () => {
+  describe('parseSummaryMode', () => {
+    it('Defaults to off', () => {
+      expect(parseSummaryMode('')).toBe('off')
+    })
+
+    it('Parses the modes', () => {
+      expect(parseSummaryMode('ALWAYS')).toBe('always')
+      expect(parseSummaryMode('on_failure')).toBe('on_failure')
+    })
+
+    it('Throws error for an unknown mode', () => {
+      expect(() => parseSummaryMode('sometimes')).toThrow(
+        'Invalid summary: "sometimes"'
+      )
+    })
+  })
+
+  describe('readTailLines', () => {
+    const writeTempFile = async (content: string) => {
+      const dir = await mkdtemp(join(tmpdir(), 'exec-action-summary-'))
+      const path = join(dir, 'out')
+      await writeFile(path, content)
+      return path
+    }
+
+    it('Reads the last lines', async () => {
+      const path = await writeTempFile('1\n2\n3\n4\n')
+      expect(await readTailLines(path, 2)).toBe('3\n4')
+    })
+
+    it('Reads a short file in full', async () => {
+      const path = await writeTempFile('1\n2')
+      expect(await readTailLines(path, 5)).toBe('1\n2')
+    })
+
+    it('Returns nothing for zero lines', async () => {
+      const path = await writeTempFile('1\n2\n')
+      expect(await readTailLines(path, 0)).toBe('')
+    })
+
+    it('Drops a line cut off by the read window', async () => {
+      const path = await writeTempFile(`${'x'.repeat(70000)}\nlast\n`)
+      expect(await readTailLines(path, 5)).toBe('last')
+    })
+  })
+
+  describe('formatSummary', () => {
+    const base = {
+      argv: ['npm', 'test'],
+      exitCode: 0,
+      exitSignal: null,
+      timedOut: false,
+      durationMs: 1500,
+      attempts: 1,
+      failure: null,
+      output: { stdout: 'ok', stderr: '' }
+    }
+
+    it('Formats a successful result', () => {
+      expect(formatSummary(base)).toBe(
+        [
+          '### ✅ Command succeeded',
+          '',
+          '- **Command:** ` ["npm","test"] `',
+          '- **Status:** exited with code 0',
+          '- **Duration:** 1.500s',
+          '',
+          '**stdout:**',
+          '',
+          '```text',
+          'ok',
+          '```',
+          '',
+          ''
+        ].join('\n')
+      )
+    })
+
+    it('Formats a failure', () => {
+      const markdown = formatSummary({
+        ...base,
+        exitCode: 143,
+        exitSignal: 'SIGTERM',
+        attempts: 3,
+        failure: 'Command was terminated by signal SIGTERM (exit code 143)',
+        output: { stdout: '', stderr: 'boom' }
+      })
+
+      expect(markdown).toContain('### ❌ Command failed')
+      expect(markdown).toContain(
+        '- **Status:** terminated by signal SIGTERM (exit code 143)'
+      )
+      expect(markdown).toContain('- **Attempts:** 3')
+      expect(markdown).toContain(
+        '- **Failure:** Command was terminated by signal SIGTERM (exit code 143)'
+      )
+      expect(markdown).toContain('**stderr:**\n\n```text\nboom\n```')
+      expect(markdown).not.toContain('**stdout:**')
+    })
+
+    it('Reports a timeout', () => {
+      expect(
+        formatSummary({ ...base, exitCode: 143, timedOut: true })
+      ).toContain('- **Status:** timed out (exit code 143)')
+    })
+
+    it('Uses fences that the output cannot close', () => {
+      expect(
+        formatSummary({ ...base, output: { stdout: '```\n````', stderr: '' } })
+      ).toContain('`````text\n```\n````\n`````')
+    })
+
+    it('Omits hidden output', () => {
+      const markdown = formatSummary({ ...base, output: null })
+
+      expect(markdown).toContain('_Output is hidden by hide_outputs._')
+      expect(markdown).not.toContain('```')
+    })
+  })
+})
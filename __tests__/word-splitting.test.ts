@@ -0,0 +1,173 @@
+/**
+ * Unit tests for src/word-splitting.ts
+ */
+import { describe, expect, it } from '@jest/globals'
+
+const { parseParseMode, expandVariable, splitPosixWords } =
+  await import('../src/word-splitting.js')
+
+describe('word-splitting.ts', () => {
+  describe('parseParseMode', () => {
+    it('Defaults to legacy', () => {
+      expect(parseParseMode('')).toBe('legacy')
+    })
+
+    it('Parses posix', () => {
+      expect(parseParseMode(' POSIX ')).toBe('posix')
+    })
+
+    it('Throws error for an unknown mode', () => {
+      expect(() => parseParseMode('bash')).toThrow(
+        'Invalid parse_mode: "bash". Expected "legacy" or "posix"'
+      )
+    })
+  })
+
+  describe('splitPosixWords', () => {
+    // The expected words are those `sh -c 'printf "<%s>" <command>'` prints,
+    // except that a newline only separates words, and that nothing is
+    // expanded and there are no operators
+    it.each([
+      // Word splitting
+      ['echo hello', ['echo', 'hello']],
+      ['  echo \t hello\n world  ', ['echo', 'hello', 'world']],
+      ['', []],
+      [' \n\t ', []],
+      // Single quotes
+      ["'hello world'", ['hello world']],
+      ["'a\\b'", ['a\\b']],
+      ["'a\\'", ['a\\']],
+      ["'\"$x`'", ['"$x`']],
+      ["'a\nb'", ['a\nb']],
+      ["'a\\\nb'", ['a\\\nb']],
+      // Double quotes
+      ['"hello world"', ['hello world']],
+      ['"a\\"b"', ['a"b']],
+      ['"a\\\\b"', ['a\\b']],
+      ['"\\$HOME"', ['$HOME']],
+      ['"\\`"', ['`']],
+      ['"a\\b"', ['a\\b']],
+      ['"a\\n"', ['a\\n']],
+      ['"it\'s"', ["it's"]],
+      ['"a\\\nb"', ['ab']],
+      ['"a\nb"', ['a\nb']],
+      // Empty arguments
+      ["''", ['']],
+      ['""', ['']],
+      ['echo \'\' "" x', ['echo', '', '', 'x']],
+      // Adjacent quoted and unquoted text
+      ['a\'b\'"c"d', ['abcd']],
+      ['a""b', ['ab']],
+      ["--name='John Doe'", ['--name=John Doe']],
+      // Backslashes outside quotes
+      ['a\\ b', ['a b']],
+      ['\\"a\\"', ['"a"']],
+      ["\\'", ["'"]],
+      ['a\\\\b', ['a\\b']],
+      ['a\\nb', ['anb']],
+      ['a\\', ['a\\']],
+      // Line continuations
+      ['echo a \\\n  b', ['echo', 'a', 'b']],
+      ['a\\\nb', ['ab']],
+      // Comments
+      ['echo x # comment', ['echo', 'x']],
+      ['# only a comment', []],
+      ['echo a # one\necho b', ['echo', 'a', 'echo', 'b']],
+      ['echo x#y', ['echo', 'x#y']],
+      ['echo \\#x "#y"', ['echo', '#x', '#y']],
+      // No expansion and no operators
+      ['echo $HOME *.txt', ['echo', '$HOME', '*.txt']],
+      ['a|b;c>d', ['a|b;c>d']]
+    ])('Splits %j', (command, words) => {
+      expect(splitPosixWords(command)).toEqual(words)
+    })
+
+    it.each([
+      ["echo 'hello", "unclosed quote (')"],
+      ['echo "hello', 'unclosed quote (")'],
+      ['echo "hello\\"', 'unclosed quote (")'],
+      ["'a' '", "unclosed quote (')"]
+    ])('Throws error for %j', (command, message) => {
+      expect(() => splitPosixWords(command)).toThrow(
+        `Invalid command: ${message}`
+      )
+    })
+  })
+  describe('expandVariable', () => {
+    const env = { NAME: 'value', EMPTY: '', NESTED: 'x y' }
+
+    it.each([
+      ['$NAME', 'value', 5],
+      ['$NAME-suffix', 'value', 5],
+      ['${NAME}suffix', 'value', 7],
+      ['$UNSET', '', 6],
+      ['${UNSET}', '', 8],
+      ['${NAME:-default}', 'value', 16],
+      ['${EMPTY:-default}', 'default', 17],
+      ['${UNSET:-default value}', 'default value', 23],
+      ['${UNSET:-$NESTED}', 'x y', 17],
+      ['${UNSET:-${EMPTY:-inner}}!', 'inner', 25],
+      ['${UNSET:-}', '', 10],
+      ['${NAME:?required}', 'value', 17]
+    ])('Expands %j', (text, value, end) => {
+      expect(expandVariable(text, 0, env)).toEqual({ value, end })
+    })
+
+    it.each(['$', '$1', '$$', '$ NAME', '$-'])('Keeps %j literally', (text) => {
+      expect(expandVariable(text, 0, env)).toBeNull()
+    })
+
+    it('Throws error for a missing required variable', () => {
+      expect(() => expandVariable('${UNSET:?is required}', 0, env)).toThrow(
+        'UNSET: is required'
+      )
+      expect(() => expandVariable('${EMPTY:?}', 0, env)).toThrow(
+        'EMPTY: parameter null or not set'
+      )
+    })
+
+    it('Throws error for an unclosed reference', () => {
+      expect(() => expandVariable('${NAME', 0, env)).toThrow(
+        'Invalid command: unclosed "${" in "${NAME"'
+      )
+    })
+
+    it.each([`\${UNSET:-'q'}`, '${NAME:-"a b"}', `\${UNSET:?'required'}`])(
+      'Throws error for quotes in %j',
+      (text) => {
+        expect(() => expandVariable(text, 0, env)).toThrow(
+          `Invalid command: quotes are not supported in "${text}"`
+        )
+      }
+    )
+
+    it.each(['${}', '${1}', '${NAME=x}', '${NAME:=x}', '${#NAME}'])(
+      'Throws error for the unsupported expansion %j',
+      (text) => {
+        expect(() => expandVariable(text, 0, env)).toThrow(
+          `Invalid command: unsupported expansion "${text}"`
+        )
+      }
+    )
+  })
+
+  describe('splitPosixWords with an environment', () => {
+    const env = { HOME: '/home/runner', SPACED: 'a b  *', EMPTY: '' }
+
+    it.each([
+      ['echo $HOME', ['echo', '/home/runner']],
+      ['echo "$HOME/x"', ['echo', '/home/runner/x']],
+      ["echo '$HOME'", ['echo', '$HOME']],
+      ['echo \\$HOME "\\$HOME"', ['echo', '$HOME', '$HOME']],
+      ['echo $SPACED', ['echo', 'a b  *']],
+      ['echo ${SPACED}x', ['echo', 'a b  *x']],
+      ['echo $EMPTY x', ['echo', 'x']],
+      ['echo "$EMPTY" x', ['echo', '', 'x']],
+      ['echo a$EMPTY', ['echo', 'a']],
+      ['echo "${UNSET:-default value}"', ['echo', 'default value']],
+      ['echo $1 $', ['echo', '$1', '$']]
+    ])('Splits %j', (command, words) => {
+      expect(splitPosixWords(command, env)).toEqual(words)
+    })
+  })
+})
@@ -49,7 +49,6 @@ export default [
           allowDefaultProject: [
             '__fixtures__/*.ts',
             '__fixtures__/*.js',
-            '__tests__/*.ts',
             'script/*.ts',
             'eslint.config.mjs',
             'jest.config.js',
@@ -0,0 +1,182 @@
+/**
+ * Helpers for writing the combined output file, which interleaves stdout and
+ * stderr lines in the order they arrived.
+ */
+
+import { StringDecoder } from 'string_decoder'
+import { Transform } from 'stream'
+
+/**
+ * How lines are written to the combined output file.
+ * - plain: the line as printed
+ * - prefixed: a timestamp and the stream name, followed by the line
+ * - jsonl: one JSON object per line with time, stream and line fields
+ */
+export type CombinedFormat = 'plain' | 'prefixed' | 'jsonl'
+
+/**
+ * The name of an output stream of the command.
+ */
+export type OutputStreamName = 'stdout' | 'stderr'
+
+// A partial line is held back while waiting for its end, but only up to this
+// length, so that output without newlines cannot exhaust memory
+const MAX_PARTIAL_LENGTH = 64 * 1024
+
+// Offset between the high-resolution monotonic clock and the Unix epoch,
+// measured once so that timestamps keep their nanosecond resolution
+const epochOffsetNs = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint()
+
+/**
+ * Get the current time with nanosecond resolution.
+ *
+ * @returns Nanoseconds since the Unix epoch.
+ */
+export function nowNs(): bigint {
+  return process.hrtime.bigint() + epochOffsetNs
+}
+
+/**
+ * Format a timestamp as an ISO 8601 string with nanosecond precision
+ * (e.g., "2025-01-01T12:00:00.123456789Z").
+ *
+ * @param timeNs Nanoseconds since the Unix epoch.
+ * @returns The formatted timestamp.
+ */
+export function formatTimestamp(timeNs: bigint): string {
+  const iso = new Date(Number(timeNs / 1_000_000n)).toISOString()
+  const fraction = (timeNs % 1_000_000_000n).toString().padStart(9, '0')
+  return `${iso.slice(0, -4)}${fraction}Z`
+}
+
+/**
+ * Parse the combined output input.
+ *
+ * @param input The combined output input string.
+ * @returns The format of the combined output file, or null when disabled.
+ */
+export function parseCombinedFormat(input: string): CombinedFormat | null {
+  const format = input.trim().toLowerCase()
+
+  if (format === '' || format === 'none') {
+    return null
+  }
+
+  if (format !== 'plain' && format !== 'prefixed' && format !== 'jsonl') {
+    throw new Error(
+      `Invalid combined_output: "${input}". Expected "none", "plain", "prefixed" or "jsonl"`
+    )
+  }
+
+  return format
+}
+
+/**
+ * Format a line for the combined output file.
+ *
+ * @param format The format of the combined output file.
+ * @param stream The stream the line was printed to.
+ * @param line The line, without its line terminator.
+ * @param timeNs When the line started arriving, in nanoseconds since the
+ *   Unix epoch.
+ * @returns The formatted line, including a trailing newline.
+ */
+export function formatCombinedLine(
+  format: CombinedFormat,
+  stream: OutputStreamName,
+  line: string,
+  timeNs: bigint
+): string {
+  switch (format) {
+    case 'prefixed':
+      return `${formatTimestamp(timeNs)} [${stream}] ${line}\n`
+    case 'jsonl':
+      return `${JSON.stringify({ time: formatTimestamp(timeNs), stream, line })}\n`
+    default:
+      return `${line}\n`
+  }
+}
+
+/**
+ * Create a splitter that turns chunks of output into complete lines.
+ * Multi-byte characters and lines split across chunks are reassembled.
+ * Each line is reported with the time its first chunk arrived. A line still
+ * without an end after 64 KiB is reported in pieces of that length.
+ *
+ * @param onLine Called for every complete line, without its "\n" terminator.
+ * @returns Functions to feed chunks and to flush the final partial line.
+ */
+export function createLineSplitter(
+  onLine: (line: string, timeNs: bigint) => void
+): { write: (chunk: Buffer) => void; end: () => void } {
+  const decoder = new StringDecoder('utf8')
+  let partial = ''
+  let partialTimeNs: bigint | null = null
+
+  const push = (text: string) => {
+    const timeNs = nowNs()
+    const lines = text.split('\n')
+
+    for (let i = 0; i < lines.length - 1; i++) {
+      onLine(partial + lines[i], partialTimeNs ?? timeNs)
+      partial = ''
+      partialTimeNs = null
+    }
+
+    const rest = lines[lines.length - 1]
+    if (rest !== '') {
+      partial += rest
+      partialTimeNs ??= timeNs
+    }
+
+    while (partial.length >= MAX_PARTIAL_LENGTH) {
+      // Never cut a character encoded as a surrogate pair in half
+      const end = /[\uD800-\uDBFF]/.test(partial[MAX_PARTIAL_LENGTH - 1])
+        ? MAX_PARTIAL_LENGTH - 1
+        : MAX_PARTIAL_LENGTH
+      onLine(partial.slice(0, end), partialTimeNs ?? timeNs)
+      partial = partial.slice(end)
+      partialTimeNs = partial === '' ? null : timeNs
+    }
+  }
+
+  return {
+    write: (chunk: Buffer) => push(decoder.write(chunk)),
+    end: () => {
+      push(decoder.end())
+      if (partial !== '') {
+        onLine(partial, partialTimeNs ?? nowNs())
+        partial = ''
+        partialTimeNs = null
+      }
+    }
+  }
+}
+
+/**
+ * Create a stream that prefixes each line passing through it, so that lines
+ * from several commands sharing the log can be told apart. Lines are only
+ * passed on once complete, so they never interleave mid-line with the output
+ * of another command. A final line without a terminator is ended with "\n",
+ * and so is each 64 KiB piece of a longer line.
+ *
+ * @param prefix The text added before each line (e.g., "[1:eslint] ").
+ * @returns The prefixing stream.
+ */
+export function createLinePrefixer(prefix: string): Transform {
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      splitter.write(chunk)
+      callback()
+    },
+    flush(callback) {
+      splitter.end()
+      callback()
+    }
+  })
+  const splitter = createLineSplitter((line) =>
+    stream.push(`${prefix}${line}\n`)
+  )
+
+  return stream
+}
@@ -0,0 +1,327 @@
+/**
+ * Helpers for building the working directory and environment of the spawned
+ * command.
+ */
+
+import { statSync } from 'fs'
+import { resolve } from 'path'
+
+/**
+ * Which variables of the action's environment the command inherits: all of
+ * them (true), none of them (false), or only those matching the listed name
+ * patterns.
+ */
+export type InheritEnv = boolean | string[]
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * The variables removed from the inherited environment by default: the
+ * action's inputs and the tokens the runner gives the action.
+ */
+export const DEFAULT_ENV_SCRUB = [
+  'INPUT_*',
+  'ACTIONS_RUNTIME_TOKEN',
+  'ACTIONS_ID_TOKEN_REQUEST_*',
+  'GITHUB_TOKEN'
+]
+
+/**
+ * Validate an environment variable name.
+ *
+ * @param name The variable name.
+ * @param source Where the name came from, used in error messages.
+ * @returns The name, if it is valid.
+ */
+function validateEnvName(name: string, source: string): string {
+  if (!ENV_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid environment variable name in ${source}: "${name}". Names must start with a letter or underscore and contain only letters, digits and underscores`
+    )
+  }
+
+  return name
+}
+
+/**
+ * Parse the env input.
+ * Each non-empty line has the form KEY=VALUE. Everything after the first "="
+ * is the value, taken literally. Lines starting with "#" are ignored.
+ *
+ * @param input The env input string.
+ * @returns The parsed variables.
+ */
+export function parseEnvInput(input: string): Record<string, string> {
+  const env: Record<string, string> = {}
+
+  for (const line of input.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue
+    }
+
+    const separator = trimmed.indexOf('=')
+    if (separator === -1) {
+      throw new Error(`Invalid env line: "${trimmed}". Expected KEY=VALUE`)
+    }
+
+    const name = validateEnvName(trimmed.slice(0, separator).trim(), 'env')
+    env[name] = trimmed.slice(separator + 1)
+  }
+
+  return env
+}
+
+/**
+ * Parse the contents of a dotenv file.
+ * Supports comments, an optional "export " prefix, single-quoted values
+ * (literal), double-quoted values (with \n, \r, \t, \" and \\ escapes, and
+ * spanning multiple lines) and unquoted values (trimmed, with trailing
+ * " #" comments removed).
+ *
+ * @param content The file contents.
+ * @returns The parsed variables.
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  const lines = content.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue
+    }
+
+    const match = /^(?:export\s+)?([^=\s]+)\s*=\s*(.*)$/.exec(trimmed)
+    if (!match) {
+      throw new Error(
+        `Invalid env_file line ${i + 1}: "${trimmed}". Expected KEY=VALUE`
+      )
+    }
+
+    const name = validateEnvName(match[1], 'env_file')
+    let value = match[2]
+
+    if (value.startsWith("'")) {
+      const end = value.indexOf("'", 1)
+      if (end === -1) {
+        throw new Error(`Invalid env_file line ${i + 1}: unclosed quote (')`)
+      }
+      value = value.slice(1, end)
+    } else if (value.startsWith('"')) {
+      // Double-quoted values may continue on the following lines
+      const startLine = i
+      let raw = value.slice(1)
+      while (!/(^|[^\\])(\\\\)*"/.test(raw)) {
+        if (++i >= lines.length) {
+          throw new Error(
+            `Invalid env_file line ${startLine + 1}: unclosed quote (")`
+          )
+        }
+        raw += `\n${lines[i]}`
+      }
+      value = unescapeDoubleQuoted(raw)
+    } else {
+      value = value.replace(/\s+#.*$/, '').trim()
+    }
+
+    env[name] = value
+  }
+
+  return env
+}
+
+/**
+ * Unescape the contents of a double-quoted dotenv value, up to its closing
+ * quote.
+ *
+ * @param raw The value after the opening quote.
+ * @returns The unescaped value.
+ */
+function unescapeDoubleQuoted(raw: string): string {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t' }
+  let value = ''
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '"') {
+      break
+    }
+    if (char === '\\' && i + 1 < raw.length) {
+      const next = raw[++i]
+      value += escapes[next] ?? next
+    } else {
+      value += char
+    }
+  }
+
+  return value
+}
+
+/**
+ * Parse the inherit_env input.
+ * Accepts "true" (the default), "false", or a comma- or newline-separated list
+ * of name patterns of the variables to inherit, which may contain "*" and "?"
+ * wildcards.
+ *
+ * @param input The inherit_env input string.
+ * @returns Which variables to inherit.
+ */
+export function parseInheritEnv(input: string): InheritEnv {
+  const value = input.trim()
+
+  if (value === '' || value.toLowerCase() === 'true') {
+    return true
+  }
+
+  if (value.toLowerCase() === 'false') {
+    return false
+  }
+
+  return parseEnvNamePatterns(value, 'inherit_env')
+}
+
+/**
+ * Parse the env_scrub input.
+ *
+ * @param input The env_scrub input string.
+ * @returns The name patterns of the variables to remove. Defaults to
+ *   DEFAULT_ENV_SCRUB, and "none" removes nothing.
+ */
+export function parseEnvScrub(input: string): string[] {
+  const value = input.trim()
+
+  if (value === '') {
+    return [...DEFAULT_ENV_SCRUB]
+  }
+
+  if (value.toLowerCase() === 'none') {
+    return []
+  }
+
+  return parseEnvNamePatterns(value, 'env_scrub')
+}
+
+/**
+ * Build the environment for the spawned command.
+ * Variables are layered in increasing order of precedence: inherited
+ * variables, then variables from the env file, then the env input.
+ * The scrub patterns only apply to inherited variables, so variables set
+ * through the env file or the env input are always passed. Variables listed
+ * by their exact name in inherit are not scrubbed either.
+ *
+ * @param options Environment options.
+ * @param options.inherit Which variables of the base environment to inherit.
+ * @param options.scrub Name patterns of the inherited variables removed.
+ * @param options.fileEnv Variables loaded from the env file.
+ * @param options.inputEnv Variables from the env input.
+ * @param baseEnv The environment to inherit from.
+ * @returns The environment for the command.
+ */
+export function buildChildEnv(
+  options: {
+    inherit: InheritEnv
+    scrub?: string[]
+    fileEnv?: Record<string, string>
+    inputEnv?: Record<string, string>
+  },
+  baseEnv: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const { inherit, scrub = [], fileEnv = {}, inputEnv = {} } = options
+  const env: NodeJS.ProcessEnv = {}
+
+  const isInherited =
+    typeof inherit === 'boolean' ? () => inherit : createEnvNameMatcher(inherit)
+  // A name listed explicitly is wanted, even when it is scrubbed by default
+  const listed = new Set(typeof inherit === 'boolean' ? [] : inherit)
+  const isScrubbed = createEnvNameMatcher(scrub)
+  for (const [name, value] of Object.entries(baseEnv)) {
+    if (
+      value !== undefined &&
+      isInherited(name) &&
+      (listed.has(name) || !isScrubbed(name))
+    ) {
+      env[name] = value
+    }
+  }
+
+  return Object.assign(env, fileEnv, inputEnv)
+}
+
+/**
+ * Resolve the working directory for the spawned command.
+ * Relative paths are resolved against the action's working directory, which
+ * is GITHUB_WORKSPACE on a runner.
+ *
+ * @param input The working_directory input string.
+ * @returns The absolute path of the working directory.
+ */
+export function resolveWorkingDirectory(input: string): string {
+  const cwd = resolve(input)
+
+  let stats
+  try {
+    stats = statSync(cwd)
+  } catch {
+    throw new Error(`Working directory does not exist: ${cwd}`)
+  }
+
+  if (!stats.isDirectory()) {
+    throw new Error(`Working directory is not a directory: ${cwd}`)
+  }
+
+  return cwd
+}
+
+/**
+ * Parse a comma- or newline-separated list of environment variable name
+ * patterns, which may contain "*" and "?" wildcards.
+ *
+ * @param input The input string.
+ * @param source The name of the input, used in error messages.
+ * @returns The name patterns.
+ */
+export function parseEnvNamePatterns(input: string, source: string): string[] {
+  return input
+    .split(/[,\n]/)
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern !== '')
+    .map((pattern) => {
+      if (!/^[A-Za-z0-9_*?]+$/.test(pattern)) {
+        throw new Error(
+          `Invalid environment variable name pattern in ${source}: "${pattern}". Patterns may contain only letters, digits, underscores and the wildcards "*" and "?"`
+        )
+      }
+      return pattern
+    })
+}
+
+/**
+ * Create a matcher for environment variable names.
+ * Patterns may use "*" to match any run of characters and "?" to match a
+ * single character (e.g., "*_TOKEN"). Matching is case-sensitive.
+ *
+ * @param patterns The name patterns.
+ * @returns A function that returns true for names matching any pattern.
+ */
+export function createEnvNameMatcher(
+  patterns: string[]
+): (name: string) => boolean {
+  const regexes = patterns.map(
+    (pattern) =>
+      new RegExp(
+        `^${pattern
+          .split('')
+          .map((char) =>
+            char === '*'
+              ? '.*'
+              : char === '?'
+                ? '.'
+                : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          )
+          .join('')}$`
+      )
+  )
+
+  return (name: string) => regexes.some((regex) => regex.test(name))
+}
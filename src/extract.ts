@@ -0,0 +1,261 @@
+/**
+ * Helpers for extracting step outputs from the command's output with regular
+ * expressions.
+ */
+
+import { createReadStream } from 'fs'
+import { createLineSplitter, type OutputStreamName } from './combined-output.js'
+
+/**
+ * Which matches of an extraction set its output.
+ * - first: the first match
+ * - last: the last match
+ * - all: every match, joined with a separator
+ */
+export type ExtractMode = 'first' | 'last' | 'all'
+
+/**
+ * A regular expression extracting step outputs from an output stream.
+ */
+export interface Extraction {
+  /** The name of the output set to the first capture group. */
+  name: string
+  /** The stream the expression is matched against. */
+  stream: OutputStreamName
+  regexp: RegExp
+  /** The named capture groups, each setting the output <name>_<group>. */
+  groups: string[]
+}
+
+const OUTPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/
+
+// The outputs the action sets itself, which extracted outputs must not replace
+const RESERVED_OUTPUT_NAMES = new Set([
+  'stdout_file',
+  'stderr_file',
+  'combined_file',
+  'stdout_bytes',
+  'stderr_bytes',
+  'stdout_truncated',
+  'stderr_truncated',
+  'stdout',
+  'stderr',
+  'stdout_inline_truncated',
+  'stderr_inline_truncated',
+  'failure_reason',
+  'results',
+  'error_count',
+  'warning_count',
+  'exit_code',
+  'exit_signal',
+  'timed_out',
+  'duration_ms',
+  'started_at',
+  'finished_at',
+  'user_cpu_ms',
+  'system_cpu_ms',
+  'max_rss_kb',
+  'attempts',
+  'attempt_outputs'
+])
+
+/**
+ * Check that a step output chosen by the user is not one the action sets
+ * itself. Output names are case-insensitive.
+ *
+ * @param name The output name.
+ * @param source Where the name came from, used in error messages.
+ * @returns The name, if it is not reserved.
+ */
+export function checkOutputNameIsFree(name: string, source: string): string {
+  if (RESERVED_OUTPUT_NAMES.has(name.toLowerCase())) {
+    throw new Error(
+      `Invalid output name in ${source}: "${name}". It is already an output of the action`
+    )
+  }
+
+  return name
+}
+
+/**
+ * Validate the name of a step output.
+ *
+ * @param name The output name.
+ * @param source Where the name came from, used in error messages.
+ * @returns The name, if it is valid.
+ */
+export function validateOutputName(name: string, source: string): string {
+  if (!OUTPUT_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid output name in ${source}: "${name}". Names must start with a letter or underscore and contain only letters, digits, "-" and "_"`
+    )
+  }
+
+  return name
+}
+
+/**
+ * Parse the extract input.
+ * Each non-empty line has the form name=regex, optionally prefixed with
+ * "stdout:" or "stderr:" to choose the stream (stdout by default).
+ *
+ * @param input The extract input string.
+ * @returns The extractions.
+ */
+export function parseExtractInput(input: string): Extraction[] {
+  const extractions: Extraction[] = []
+
+  for (const line of input.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (trimmed === '') {
+      continue
+    }
+
+    const separator = trimmed.indexOf('=')
+    if (separator === -1) {
+      throw new Error(`Invalid extract line: "${trimmed}". Expected name=regex`)
+    }
+
+    let name = trimmed.slice(0, separator).trim()
+    let stream: OutputStreamName = 'stdout'
+    const prefix = /^(stdout|stderr):/.exec(name)
+    if (prefix) {
+      stream = prefix[1] as OutputStreamName
+      name = name.slice(prefix[0].length)
+    }
+    checkOutputNameIsFree(validateOutputName(name, 'extract'), 'extract')
+
+    const source = trimmed.slice(separator + 1)
+    let regexp: RegExp
+    try {
+      regexp = new RegExp(source)
+    } catch (error) {
+      throw new Error(
+        `Invalid extract pattern for "${name}": "${source}". ${(error as Error).message}`,
+        { cause: error }
+      )
+    }
+
+    // An empty alternative always matches, revealing every named group
+    const groups = Object.keys(new RegExp(`${source}|`).exec('')!.groups ?? {})
+    for (const group of groups) {
+      checkOutputNameIsFree(`${name}_${group}`, 'extract')
+    }
+
+    extractions.push({ name, stream, regexp, groups })
+  }
+
+  return extractions
+}
+
+/**
+ * Parse the extract mode input.
+ *
+ * @param input The extract mode input string.
+ * @returns The extract mode. Defaults to "first".
+ */
+export function parseExtractMode(input: string): ExtractMode {
+  const mode = input.trim().toLowerCase() || 'first'
+
+  if (mode !== 'first' && mode !== 'last' && mode !== 'all') {
+    throw new Error(
+      `Invalid extract_mode: "${input}". Expected "first", "last" or "all"`
+    )
+  }
+
+  return mode
+}
+
+/**
+ * Get the names of the outputs an extraction sets.
+ *
+ * @param extraction The extraction.
+ * @returns The output names.
+ */
+function getOutputNames(extraction: Extraction): string[] {
+  return [
+    extraction.name,
+    ...extraction.groups.map((group) => `${extraction.name}_${group}`)
+  ]
+}
+
+/**
+ * Get the values a match sets, keyed by output name.
+ * The output named after the extraction gets the first capture group, or the
+ * whole match when there are no groups.
+ *
+ * @param extraction The extraction.
+ * @param match The match.
+ * @returns The output values.
+ */
+function getMatchValues(
+  extraction: Extraction,
+  match: RegExpExecArray
+): Record<string, string> {
+  const values: Record<string, string> = {
+    [extraction.name]: (match.length > 1 ? match[1] : match[0]) ?? ''
+  }
+  for (const group of extraction.groups) {
+    values[`${extraction.name}_${group}`] = match.groups?.[group] ?? ''
+  }
+  return values
+}
+
+/**
+ * Extract outputs from an output file, matching each line.
+ * The file is read as a stream, so it is never held in memory.
+ *
+ * @param path The output file.
+ * @param extractions The extractions to apply to the file.
+ * @param mode Which matches set the outputs.
+ * @param separator The separator between matches in "all" mode.
+ * @returns The output values, keyed by output name. Outputs without a match
+ *   are set to an empty string.
+ */
+export async function extractOutputs(
+  path: string,
+  extractions: Extraction[],
+  mode: ExtractMode,
+  separator: string
+): Promise<Record<string, string>> {
+  if (extractions.length === 0) {
+    return {}
+  }
+
+  const matches = new Map<string, string[]>()
+  for (const extraction of extractions) {
+    for (const name of getOutputNames(extraction)) {
+      matches.set(name, [])
+    }
+  }
+
+  const splitter = createLineSplitter((line) => {
+    for (const extraction of extractions) {
+      if (mode === 'first' && matches.get(extraction.name)!.length > 0) {
+        continue
+      }
+      const match = extraction.regexp.exec(line.replace(/\r$/, ''))
+      if (!match) {
+        continue
+      }
+      for (const [name, value] of Object.entries(
+        getMatchValues(extraction, match)
+      )) {
+        const values = matches.get(name)!
+        if (mode === 'last') {
+          values.length = 0
+        }
+        values.push(value)
+      }
+    }
+  })
+
+  for await (const chunk of createReadStream(path)) {
+    splitter.write(chunk as Buffer)
+  }
+  splitter.end()
+
+  return Object.fromEntries(
+    [...matches].map(([name, values]) => [name, values.join(separator)])
+  )
+}
@@ -3,19 +3,74 @@
  * These replace the @actions/core dependency with zero external dependencies.
  */
 
+import { randomBytes } from 'crypto'
 import { appendFileSync } from 'fs'
 
+// The token that resumes workflow commands while they are stopped, and how
+// many callers asked to stop them
+let stopToken: string | null = null
+let stopCount = 0
+// The action's own workflow commands issued while commands are stopped
+const pendingCommands: string[] = []
+
+/**
+ * Writes a workflow command to stdout. While workflow commands are stopped,
+ * it is held back until they are resumed. Commands are never resumed for it,
+ * since output printed meanwhile by a running command could be processed.
+ *
+ * @param line Workflow command, including its trailing newline
+ */
+function issueCommand(line: string): void {
+  if (stopToken === null) {
+    process.stdout.write(line)
+  } else {
+    pendingCommands.push(line)
+  }
+}
+
+/**
+ * Stops the runner from processing workflow commands written to the log, so
+ * that output such as "::add-mask::" or "::error::" printed by a command is
+ * shown as it is. The action's own commands are written once commands are
+ * resumed, which is when every caller has resumed them.
+ *
+ * @returns A function resuming workflow commands. Calling it again does
+ *   nothing.
+ */
+export function stopCommands(): () => void {
+  if (stopCount++ === 0) {
+    // The token must not be guessable, or the output could resume commands
+    stopToken = randomBytes(16).toString('hex')
+    process.stdout.write(`::stop-commands::${stopToken}\n`)
+  }
+
+  let resumed = false
+  return () => {
+    if (resumed) {
+      return
+    }
+    resumed = true
+    if (--stopCount === 0) {
+      process.stdout.write(
+        `::${stopToken}::\n${pendingCommands.splice(0).join('')}`
+      )
+      stopToken = null
+    }
+  }
+}
+
 /**
  * Gets the value of an input. The value is retrieved from the environment
  * variable INPUT_<name> (converted to uppercase).
  *
  * @param name Name of the input to get
- * @param options Optional. If required is true, will throw if input is not set
+ * @param options Optional. If required is true, will throw if input is not set.
+ *   If trimWhitespace is false, leading and trailing whitespace is kept.
  * @returns string
  */
 export function getInput(
   name: string,
-  options?: { required?: boolean }
+  options?: { required?: boolean; trimWhitespace?: boolean }
 ): string {
   const envName = `INPUT_${name.replace(/ /g, '_').toUpperCase()}`
   const val = process.env[envName] || ''
@@ -24,7 +79,7 @@ export function getInput(
     throw new Error(`Input required and not supplied: ${name}`)
   }
 
-  return val.trim()
+  return options?.trimWhitespace === false ? val : val.trim()
 }
 
 /**
@@ -54,7 +109,7 @@ export function setOutput(name: string, value: string): void {
  * @param message Debug message
  */
 export function debug(message: string): void {
-  process.stdout.write(`::debug::${message}\n`)
+  issueCommand(`::debug::${message}\n`)
 }
 
 /**
@@ -64,5 +119,153 @@ export function debug(message: string): void {
  */
 export function setFailed(message: string): void {
   process.exitCode = 1
-  process.stdout.write(`::error::${message}\n`)
+  issueCommand(`::error::${escapeData(message)}\n`)
+}
+
+/**
+ * Registers a secret which will be masked from the log.
+ * Multi-line secrets are registered line by line, since the runner matches
+ * masks within a single line.
+ *
+ * @param secret Value of the secret
+ */
+export function setSecret(secret: string): void {
+  for (const line of secret.split(/\r?\n/)) {
+    if (line.trim() !== '') {
+      issueCommand(`::add-mask::${line}\n`)
+    }
+  }
+}
+
+/**
+ * Appends Markdown to the job summary by writing to the GITHUB_STEP_SUMMARY
+ * file.
+ *
+ * @param markdown Markdown to append
+ */
+export function addSummary(markdown: string): void {
+  const summaryFile = process.env['GITHUB_STEP_SUMMARY']
+  if (!summaryFile) {
+    // In local development without GitHub Actions environment
+    return
+  }
+
+  appendFileSync(summaryFile, markdown, { encoding: 'utf8' })
+}
+
+/**
+ * Properties of an annotation, locating it in a file.
+ */
+export interface AnnotationProperties {
+  title?: string
+  file?: string
+  startLine?: number
+  endLine?: number
+  startColumn?: number
+  endColumn?: number
+}
+
+/**
+ * Escapes the message of a workflow command.
+ *
+ * @param value Message to escape
+ * @returns The escaped message
+ */
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A')
+}
+
+/**
+ * Escapes a property value of a workflow command.
+ *
+ * @param value Property value to escape
+ * @returns The escaped property value
+ */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C')
+}
+
+/**
+ * Writes an annotation workflow command to stdout.
+ *
+ * @param command Annotation command (error or warning)
+ * @param message Annotation message
+ * @param properties Optional. Where the annotation is located
+ */
+function annotate(
+  command: 'error' | 'warning',
+  message: string,
+  properties: AnnotationProperties
+): void {
+  const names: Record<keyof AnnotationProperties, string> = {
+    title: 'title',
+    file: 'file',
+    startLine: 'line',
+    endLine: 'endLine',
+    startColumn: 'col',
+    endColumn: 'endColumn'
+  }
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${names[key as keyof AnnotationProperties]}=${escapeProperty(String(value))}`
+    )
+    .join(',')
+
+  issueCommand(
+    `::${command}${props ? ` ${props}` : ''}::${escapeData(message)}\n`
+  )
+}
+
+/**
+ * Adds an error annotation, optionally located in a file.
+ *
+ * @param message Error message
+ * @param properties Optional. Where the error is located
+ */
+export function error(
+  message: string,
+  properties: AnnotationProperties = {}
+): void {
+  annotate('error', message, properties)
+}
+
+/**
+ * Adds a warning annotation, optionally located in a file.
+ *
+ * @param message Warning message
+ * @param properties Optional. Where the warning is located
+ */
+export function warning(
+  message: string,
+  properties: AnnotationProperties = {}
+): void {
+  annotate('warning', message, properties)
+}
+
+/**
+ * Writes an informational message to the log.
+ *
+ * @param message Info message
+ */
+export function info(message: string): void {
+  process.stdout.write(`${message}\n`)
+}
+
+/**
+ * Begins a collapsible group in the log. Everything written to the log until
+ * the group ends is nested inside it.
+ *
+ * @param name Title of the group
+ */
+export function startGroup(name: string): void {
+  issueCommand(`::group::${escapeData(name)}\n`)
+}
+
+/**
+ * Ends the collapsible group started last.
+ */
+export function endGroup(): void {
+  issueCommand('::endgroup::\n')
 }
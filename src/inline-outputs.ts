@@ -0,0 +1,65 @@
+/**
+ * Helpers for publishing small command outputs directly as step outputs.
+ */
+
+import { open } from 'fs/promises'
+import type { OutputStreamName } from './combined-output.js'
+
+/**
+ * Parse the inline outputs input.
+ *
+ * @param input A comma-separated list of streams (e.g., "stdout,stderr").
+ * @returns The streams to publish as step outputs.
+ */
+export function parseInlineOutputs(input: string): OutputStreamName[] {
+  const streams = new Set<OutputStreamName>()
+
+  for (const part of input.split(',')) {
+    const stream = part.trim().toLowerCase()
+    if (stream === '') {
+      continue
+    }
+    if (stream !== 'stdout' && stream !== 'stderr') {
+      throw new Error(
+        `Invalid inline_outputs: "${part.trim()}". Expected "stdout" and/or "stderr"`
+      )
+    }
+    streams.add(stream)
+  }
+
+  return [...streams]
+}
+
+/**
+ * Read an output file for publishing as a step output.
+ * Files larger than the limit are not read at all, so a large output can never
+ * end up in the step outputs.
+ *
+ * @param path The output file.
+ * @param maxBytes The largest file that is published.
+ * @param trimNewlines When true, trailing newlines are removed.
+ * @returns The contents, or an empty string and truncated set to true when
+ *   the file is larger than maxBytes.
+ */
+export async function readInlineOutput(
+  path: string,
+  maxBytes: number,
+  trimNewlines: boolean
+): Promise<{ value: string; truncated: boolean }> {
+  const file = await open(path, 'r')
+
+  try {
+    const { size } = await file.stat()
+    if (size > maxBytes) {
+      return { value: '', truncated: true }
+    }
+
+    const value = await file.readFile('utf8')
+    return {
+      value: trimNewlines ? value.replace(/(\r?\n)+$/, '') : value,
+      truncated: false
+    }
+  } finally {
+    await file.close()
+  }
+}
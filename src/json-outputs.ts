@@ -0,0 +1,236 @@
+/**
+ * Helpers for setting step outputs from fields of JSON printed by the command.
+ */
+
+import { checkOutputNameIsFree, validateOutputName } from './extract.js'
+
+/**
+ * How stdout is parsed.
+ * - text: not at all
+ * - json: as a single JSON document
+ * - jsonl: as one JSON document per line, read as an array of documents
+ */
+export type StdoutFormat = 'text' | 'json' | 'jsonl'
+
+/**
+ * What happens when stdout cannot be parsed.
+ * - fail: the step fails
+ * - warn: a warning is logged and the JSON outputs are left empty
+ */
+export type JsonErrorMode = 'fail' | 'warn'
+
+/**
+ * A step output set from a field of the JSON.
+ */
+export interface JsonOutput {
+  name: string
+  /** The path of the field, as written in the input. */
+  source: string
+  /** Object keys and array indexes leading to the field. */
+  path: Array<string | number>
+}
+
+/**
+ * Parse the stdout format input.
+ *
+ * @param input The stdout format input string.
+ * @returns The stdout format. Defaults to "text".
+ */
+export function parseStdoutFormat(input: string): StdoutFormat {
+  const format = input.trim().toLowerCase() || 'text'
+
+  if (format !== 'text' && format !== 'json' && format !== 'jsonl') {
+    throw new Error(
+      `Invalid stdout_format: "${input}". Expected "text", "json" or "jsonl"`
+    )
+  }
+
+  return format
+}
+
+/**
+ * Parse the JSON error mode input.
+ *
+ * @param input The JSON error mode input string.
+ * @returns The JSON error mode. Defaults to "fail".
+ */
+export function parseJsonErrorMode(input: string): JsonErrorMode {
+  const mode = input.trim().toLowerCase() || 'fail'
+
+  if (mode !== 'fail' && mode !== 'warn') {
+    throw new Error(`Invalid json_error: "${input}". Expected "fail" or "warn"`)
+  }
+
+  return mode
+}
+
+/**
+ * Parse a path to a field, such as ".items[0].id" or '.labels["app.name"]'.
+ * Keys are written as ".key" or as a JSON string in brackets, and array
+ * indexes in brackets, counting from the end when negative. "." is the whole
+ * document.
+ *
+ * @param source The path.
+ * @returns Object keys and array indexes leading to the field.
+ */
+export function parseJsonPath(source: string): Array<string | number> {
+  const path: Array<string | number> = []
+  const segment = /\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y
+
+  if (source === '.') {
+    return path
+  }
+  if (!source.startsWith('.') && !source.startsWith('[')) {
+    throw new Error(
+      `Invalid json_outputs path: "${source}". Paths start with "." or "["`
+    )
+  }
+
+  while (segment.lastIndex < source.length) {
+    const position = segment.lastIndex
+    const match = segment.exec(source)
+    if (!match) {
+      throw new Error(
+        `Invalid json_outputs path: "${source}". Unexpected "${source.slice(position)}"`
+      )
+    }
+    path.push(
+      match[1] ??
+        (match[2] !== undefined ? Number(match[2]) : JSON.parse(match[3]))
+    )
+  }
+
+  return path
+}
+
+/**
+ * Parse the json_outputs input.
+ * Each non-empty line has the form name=path (e.g., "id=.items[0].id").
+ *
+ * @param input The json_outputs input string.
+ * @returns The JSON outputs.
+ */
+export function parseJsonOutputs(input: string): JsonOutput[] {
+  const outputs: JsonOutput[] = []
+
+  for (const line of input.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (trimmed === '') {
+      continue
+    }
+
+    const separator = trimmed.indexOf('=')
+    if (separator === -1) {
+      throw new Error(
+        `Invalid json_outputs line: "${trimmed}". Expected name=path`
+      )
+    }
+
+    const name = checkOutputNameIsFree(
+      validateOutputName(trimmed.slice(0, separator).trim(), 'json_outputs'),
+      'json_outputs'
+    )
+    const source = trimmed.slice(separator + 1).trim()
+    outputs.push({ name, source, path: parseJsonPath(source) })
+  }
+
+  return outputs
+}
+
+/**
+ * Parse a JSON document. The error names where parsing failed, but unlike the
+ * error of JSON.parse, never quotes the text, which may be hidden or contain
+ * workflow commands.
+ *
+ * @param text The JSON text.
+ * @returns The parsed document.
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    const message = (error as Error).message
+    const position = /at position (\d+)/.exec(message)
+    if (position) {
+      const before = text.slice(0, Number(position[1])).split('\n')
+      throw new Error(
+        `Invalid JSON at line ${before.length}, column ${before[before.length - 1].length + 1}`,
+        { cause: error }
+      )
+    }
+    throw new Error(
+      message.startsWith('Unexpected end of JSON input')
+        ? 'Unexpected end of JSON input'
+        : 'Invalid JSON',
+      { cause: error }
+    )
+  }
+}
+
+/**
+ * Parse the command's stdout.
+ *
+ * @param text The contents of stdout.
+ * @param format How stdout is formatted.
+ * @returns The parsed document. For jsonl, an array of the documents on each
+ *   non-empty line.
+ */
+export function parseStdoutJson(
+  text: string,
+  format: Exclude<StdoutFormat, 'text'>
+): unknown {
+  if (format === 'json') {
+    return parseJson(text)
+  }
+
+  return text
+    .split('\n')
+    .map((line, index) => {
+      try {
+        return line.trim() === '' ? undefined : parseJson(line)
+      } catch (error) {
+        throw new Error(`Line ${index + 1}: ${(error as Error).message}`, {
+          cause: error
+        })
+      }
+    })
+    .filter((document) => document !== undefined)
+}
+
+/**
+ * Get the value of a field as an output value.
+ * Strings are used as they are, other scalars are converted to strings, and
+ * objects and arrays are serialized as JSON. Missing fields and null are
+ * empty.
+ *
+ * @param document The parsed document.
+ * @param path Object keys and array indexes leading to the field.
+ * @returns The output value.
+ */
+export function getJsonOutputValue(
+  document: unknown,
+  path: Array<string | number>
+): string {
+  let value = document
+
+  for (const key of path) {
+    if (typeof key === 'number' && Array.isArray(value)) {
+      value = value[key < 0 ? value.length + key : key]
+    } else if (
+      typeof key === 'string' &&
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.hasOwn(value, key)
+    ) {
+      value = (value as Record<string, unknown>)[key]
+    } else {
+      return ''
+    }
+  }
+
+  if (value === undefined || value === null) {
+    return ''
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers for wrapping the command's output in a collapsible group in the log.
+ */
+
+/**
+ * How the command's output is grouped in the log.
+ */
+export interface LogGroup {
+  /**
+   * The title of the group, where "{argv}" stands for the executable and its
+   * arguments.
+   */
+  title: string
+}
+
+// Arguments made of these characters are shown without quotes
+const SAFE_ARGUMENT = /^[\w@%+=:,./-]+$/
+
+/**
+ * Format the executable and its arguments as a shell command line, quoting
+ * the arguments that need it (e.g., echo 'hello world').
+ *
+ * @param args The executable and its arguments.
+ * @returns The command line.
+ */
+export function formatArgv(args: string[]): string {
+  return args
+    .map((arg) =>
+      SAFE_ARGUMENT.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+    )
+    .join(' ')
+}
+
+/**
+ * Format the title of the group from its template.
+ *
+ * @param template The title template, where "{argv}" stands for the
+ *   executable and its arguments.
+ * @param args The executable and its arguments.
+ * @returns The title.
+ */
+export function formatGroupTitle(template: string, args: string[]): string {
+  return template.replace(/\{argv\}/g, () => formatArgv(args))
+}
+
+/**
+ * Format the line closing the group, with how the command ended and how long
+ * it ran.
+ *
+ * @param result How the command ended.
+ * @param result.exitCode The exit code of the command.
+ * @param result.exitSignal The signal that terminated the command, if any.
+ * @param result.timedOut Whether the command was terminated by the timeout.
+ * @param result.durationMs How long the command ran, in milliseconds.
+ * @param succeeded Whether the command is treated as a success.
+ * @returns The footer line.
+ */
+export function formatGroupFooter(
+  result: {
+    exitCode: number
+    exitSignal: string | null
+    timedOut: boolean
+    durationMs: number
+  },
+  succeeded: boolean
+): string {
+  const status = result.timedOut
+    ? `Timed out (exit code ${result.exitCode})`
+    : result.exitSignal
+      ? `Terminated by signal ${result.exitSignal} (exit code ${result.exitCode})`
+      : `Exited with code ${result.exitCode}`
+
+  return `${succeeded ? '✅' : '❌'} ${status} in ${(result.durationMs / 1000).toFixed(3)}s`
+}
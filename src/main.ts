@@ -1,10 +1,87 @@
 import { spawn } from 'child_process'
-import { createWriteStream } from 'fs'
+import { createReadStream, createWriteStream, readFileSync } from 'fs'
 import { openSync, constants } from 'fs'
-import { tmpdir } from 'os'
-import { join } from 'path'
+import { tmpdir, constants as osConstants } from 'os'
+import { basename, join } from 'path'
 import { randomBytes } from 'crypto'
+import { Readable, Writable } from 'stream'
+import { setTimeout as sleep } from 'timers/promises'
 import * as core from './github-actions.js'
+import {
+  type CombinedFormat,
+  type OutputStreamName,
+  createLinePrefixer,
+  createLineSplitter,
+  formatCombinedLine,
+  parseCombinedFormat
+} from './combined-output.js'
+import {
+  type TruncateStrategy,
+  createOutputLimiter,
+  parseTruncateStrategy
+} from './output-limit.js'
+import { parseInlineOutputs, readInlineOutput } from './inline-outputs.js'
+import { formatSummary, parseSummaryMode, readTailLines } from './summary.js'
+import {
+  extractOutputs,
+  parseExtractInput,
+  parseExtractMode
+} from './extract.js'
+import {
+  getJsonOutputValue,
+  parseJsonErrorMode,
+  parseJsonOutputs,
+  parseStdoutFormat,
+  parseStdoutJson
+} from './json-outputs.js'
+import {
+  type Problem,
+  type ProblemMatcher,
+  createProblemMatcher,
+  parseProblemMatchers
+} from './problem-matcher.js'
+import { type ShellTemplate, parseShell, writeShellScript } from './shell.js'
+import { type CommandMetrics, startResourceMonitor } from './metrics.js'
+import {
+  type LogGroup,
+  formatGroupFooter,
+  formatGroupTitle
+} from './log-group.js'
+import {
+  USE_PROCESS_GROUPS,
+  signalCommand,
+  sweepOrphans
+} from './process-group.js'
+import {
+  type ParseMode,
+  expandVariable,
+  parseParseMode,
+  splitPosixWords
+} from './word-splitting.js'
+import {
+  type OutputFailure,
+  type OutputRules,
+  createOutputChecker,
+  hasOutputRules,
+  parseOutputPatterns
+} from './output-rules.js'
+import {
+  type RedactionRules,
+  createRedactor,
+  redact,
+  hasRedactionRules,
+  parseRedactInput
+} from './redact.js'
+import {
+  buildChildEnv,
+  createEnvNameMatcher,
+  parseDotenv,
+  parseEnvInput,
+  parseEnvNamePatterns,
+  parseEnvScrub,
+  parseInheritEnv,
+  resolveWorkingDirectory
+} from './env.js'
 
 /**
  * The main function for the action.
@@ -13,29 +90,479 @@ import * as core from './github-actions.js'
  */
 export async function run(): Promise<void> {
   try {
-    const command: string = core.getInput('command', { required: true })
+    // args are taken literally, so the last one keeps its trailing whitespace
+    const args = core.getInput('args', { trimWhitespace: false })
+    const commands = parseCommandList(
+      core.getInput('command'),
+      core.getInput('commands'),
+      args
+    )
+    const teardown: string = core.getInput('teardown')
+    const failFast: boolean =
+      core.getInput('fail_fast').toLowerCase() !== 'false'
+    const continueOnError: boolean =
+      core.getInput('continue_on_error').toLowerCase() === 'true'
+    const parallel: boolean = core.getInput('parallel').toLowerCase() === 'true'
+    const maxParallel = parseNonNegativeInteger(
+      core.getInput('max_parallel'),
+      'max_parallel'
+    )
     const successExitCodesInput: string = core.getInput('success_exit_codes')
+    const successSignalsInput: string = core.getInput('success_signals')
     const hideOutputs: boolean =
       core.getInput('hide_outputs').toLowerCase() === 'true'
+    const logGroupTitle = core.getInput('log_group')
+    const logGroup: LogGroup | null = logGroupTitle
+      ? { title: logGroupTitle }
+      : null
+    const allowWorkflowCommands: boolean =
+      core.getInput('allow_workflow_commands').toLowerCase() !== 'false'
+    const timeoutSeconds = parseSeconds(
+      core.getInput('timeout_seconds'),
+      'timeout_seconds'
+    )
+    const killGraceSeconds = parseSeconds(
+      core.getInput('kill_grace_seconds'),
+      'kill_grace_seconds',
+      10
+    )
+    const timeoutSignal = parseSignal(
+      core.getInput('timeout_signal') || 'SIGTERM'
+    )
+    const killOrphans: boolean =
+      core.getInput('kill_orphans').toLowerCase() === 'true'
+    const killOrphansGraceSeconds = parseSeconds(
+      core.getInput('kill_orphans_grace_seconds'),
+      'kill_orphans_grace_seconds',
+      5
+    )
+    const retryOnExitCodesInput = core.getInput('retry_on_exit_codes')
+    const retryPolicy: RetryPolicy = {
+      retries: parseNonNegativeInteger(core.getInput('retries'), 'retries'),
+      delaySeconds: parseSeconds(
+        core.getInput('retry_delay_seconds'),
+        'retry_delay_seconds'
+      ),
+      backoff: parseRetryBackoff(core.getInput('retry_backoff')),
+      retryOnExitCodes: retryOnExitCodesInput
+        ? parseSuccessExitCodes(retryOnExitCodesInput)
+        : null
+    }
+    const workingDirectory = resolveWorkingDirectory(
+      core.getInput('working_directory') || '.'
+    )
+    const envFile = core.getInput('env_file')
+    const fileEnv = envFile ? parseDotenv(readFileSync(envFile, 'utf8')) : {}
+    const inputEnv = parseEnvInput(core.getInput('env'))
+    const inherit = parseInheritEnv(core.getInput('inherit_env'))
+    const envScrub = parseEnvScrub(core.getInput('env_scrub'))
+    const env = buildChildEnv({
+      inherit,
+      scrub: envScrub,
+      fileEnv,
+      inputEnv
+    })
+    const combinedFormat = parseCombinedFormat(core.getInput('combined_output'))
+    const maxOutputBytes = parseNonNegativeInteger(
+      core.getInput('max_output_bytes'),
+      'max_output_bytes'
+    )
+    const truncateStrategy = parseTruncateStrategy(
+      core.getInput('truncate_strategy')
+    )
+    const redaction = parseRedactInput(core.getInput('redact'))
+    const isRedactedEnv = createEnvNameMatcher(
+      parseEnvNamePatterns(core.getInput('redact_env'), 'redact_env')
+    )
+    for (const [name, value] of Object.entries(env)) {
+      if (value && isRedactedEnv(name)) {
+        redaction.literals.push(value)
+      }
+    }
+    const redactFiles: boolean =
+      core.getInput('redact_files').toLowerCase() === 'true'
+
+    // Mask the literal values before anything else is logged, so that they
+    // are hidden everywhere in the log, not only in the command's output
+    for (const literal of redaction.literals) {
+      core.setSecret(literal)
+    }
+
+    const inlineOutputs = parseInlineOutputs(core.getInput('inline_outputs'))
+    const inlineMaxBytes = parseNonNegativeInteger(
+      core.getInput('inline_max_bytes'),
+      'inline_max_bytes',
+      65536
+    )
+    const inlineTrimNewlines: boolean =
+      core.getInput('inline_trim_newlines').toLowerCase() !== 'false'
+    const problemMatchersInput = core.getInput('problem_matchers')
+    const problemMatchers = problemMatchersInput
+      ? parseProblemMatchers(
+          problemMatchersInput.startsWith('{')
+            ? problemMatchersInput
+            : readFileSync(problemMatchersInput, 'utf8')
+        )
+      : []
+    const extractions = parseExtractInput(core.getInput('extract'))
+    const extractMode = parseExtractMode(core.getInput('extract_mode'))
+    const extractSeparator = core.getInput('extract_separator') || '\n'
+    const stdoutFormat = parseStdoutFormat(core.getInput('stdout_format'))
+    const jsonOutputs = parseJsonOutputs(core.getInput('json_outputs'))
+    const jsonErrorMode = parseJsonErrorMode(core.getInput('json_error'))
+    if (jsonOutputs.length > 0 && stdoutFormat === 'text') {
+      throw new Error(
+        'json_outputs requires stdout_format to be "json" or "jsonl"'
+      )
+    }
+    const outputRules: OutputRules = {
+      failOnStderr: core.getInput('fail_on_stderr').toLowerCase() === 'true',
+      failIfMatches: parseOutputPatterns(
+        core.getInput('fail_if_output_matches'),
+        'fail_if_output_matches'
+      ),
+      requireMatches: parseOutputPatterns(
+        core.getInput('require_output_matches'),
+        'require_output_matches'
+      )
+    }
+    const shell = parseShell(core.getInput('shell'))
+    const parseMode = parseParseMode(core.getInput('parse_mode'))
+    const expandEnv: boolean =
+      core.getInput('expand_env').toLowerCase() === 'true'
+    if (shell && args.trim()) {
+      throw new Error(
+        'args cannot be used with shell, which runs a command line'
+      )
+    }
+    const summaryMode = parseSummaryMode(core.getInput('summary'))
+    const summaryLines = parseNonNegativeInteger(
+      core.getInput('summary_lines'),
+      'summary_lines',
+      20
+    )
+    const stdin = parseStdinSource(
+      core.getInput('stdin_mode'),
+      core.getInput('stdin'),
+      core.getInput('stdin_file')
+    )
 
-    core.debug(`Executing command: ${command}`)
+    for (const command of commands) {
+      core.debug(`Executing command: ${formatCommand(command)}`)
+    }
+    core.debug(`Teardown command: ${teardown || 'none'}`)
+    core.debug(`Fail fast: ${failFast}, continue on error: ${continueOnError}`)
+    core.debug(
+      `Parallel: ${parallel}${parallel ? `, max parallel: ${maxParallel || 'unlimited'}` : ''}`
+    )
+    core.debug(`Shell: ${shell?.template ?? 'none'}`)
+    core.debug(`Parse mode: ${parseMode}, expand env: ${expandEnv}`)
     core.debug(`Success exit codes: ${successExitCodesInput}`)
+    core.debug(`Success signals: ${successSignalsInput}`)
     core.debug(`Hide outputs: ${hideOutputs}`)
+    core.debug(`Log group: ${logGroup?.title ?? 'none'}`)
+    core.debug(`Allow workflow commands: ${allowWorkflowCommands}`)
+    core.debug(`Timeout: ${timeoutSeconds}s (${timeoutSignal})`)
+    core.debug(`Kill grace period: ${killGraceSeconds}s`)
+    core.debug(
+      `Kill orphans: ${killOrphans}${killOrphans ? ` (grace period: ${killOrphansGraceSeconds}s)` : ''}`
+    )
+    core.debug(
+      `Retries: ${retryPolicy.retries} (${retryPolicy.backoff}, ${retryPolicy.delaySeconds}s)`
+    )
+    core.debug(`Working directory: ${workingDirectory}`)
+    // Only names are logged, values may be secrets
+    core.debug(
+      `Environment variables set: ${Object.keys({ ...fileEnv, ...inputEnv }).join(', ')}`
+    )
+    core.debug(
+      `Inherited environment: ${typeof inherit === 'boolean' ? (inherit ? 'all' : 'none') : inherit.join(', ')}, scrubbed: ${envScrub.join(', ') || 'none'}`
+    )
+    core.debug(`Stdin mode: ${stdin.mode}`)
+    core.debug(`Combined output: ${combinedFormat ?? 'none'}`)
+    core.debug(
+      `Max output bytes: ${maxOutputBytes || 'unlimited'} (${truncateStrategy})`
+    )
+    core.debug(
+      `Redacting ${redaction.literals.length} values and ${redaction.patterns.length} patterns${redactFiles ? ', including in output files' : ''}`
+    )
+    core.debug(
+      `Inline outputs: ${inlineOutputs.join(', ') || 'none'} (max ${inlineMaxBytes} bytes)`
+    )
+    core.debug(
+      `Extracting ${extractions.map((extraction) => extraction.name).join(', ') || 'nothing'} (${extractMode})`
+    )
+    core.debug(
+      `Stdout format: ${stdoutFormat} (${jsonOutputs.length} JSON outputs, on error: ${jsonErrorMode})`
+    )
+    core.debug(
+      `Output rules: fail on stderr: ${outputRules.failOnStderr}, ${outputRules.failIfMatches.length} failure patterns, ${outputRules.requireMatches.length} required patterns`
+    )
+    core.debug(`Summary: ${summaryMode} (${summaryLines} lines)`)
+    core.debug(
+      `Problem matchers: ${problemMatchers.map((matcher) => matcher.owner).join(', ') || 'none'}`
+    )
+
+    // Parse success criteria
+    const successCriteria: SuccessCriteria = {
+      exitCodes: parseSuccessExitCodes(successExitCodesInput),
+      signals: parseSuccessSignals(successSignalsInput)
+    }
 
-    // Parse success exit codes
-    const successExitCodes = parseSuccessExitCodes(successExitCodesInput)
+    // Execute the commands, retrying failed attempts, and capture outputs
+    const sequence = await executeSequence(
+      commands,
+      teardown,
+      {
+        hideOutputs,
+        timeoutSeconds,
+        killGraceSeconds,
+        timeoutSignal,
+        cwd: workingDirectory,
+        env,
+        stdin,
+        combinedFormat,
+        maxOutputBytes,
+        truncateStrategy,
+        redaction,
+        redactFiles,
+        problemMatchers,
+        outputRules,
+        shell,
+        parseMode,
+        expandEnv,
+        killOrphans,
+        killOrphansGraceSeconds,
+        logGroup,
+        allowWorkflowCommands
+      },
+      successCriteria,
+      retryPolicy,
+      { failFast, maxParallel: parallel ? maxParallel || commands.length : 1 }
+    )
+    const allRuns = [
+      ...sequence.runs,
+      ...(sequence.teardown ? [sequence.teardown] : [])
+    ]
 
-    // Execute the command and capture outputs
-    const result = await executeCommand(command, { hideOutputs })
+    // The outputs describe the first command that failed, or else the last one
+    const decisive =
+      sequence.runs.find(
+        (commandRun) =>
+          !isSuccessful(getFinalResult(commandRun), successCriteria)
+      ) ?? sequence.runs[sequence.runs.length - 1]
+    const { attempts } = decisive
+    const result = getFinalResult(decisive)
+
+    core.setOutput(
+      'results',
+      JSON.stringify(
+        allRuns.map((commandRun) => {
+          const final = getFinalResult(commandRun)
+          return {
+            command: commandRun.command,
+            teardown: commandRun === sequence.teardown,
+            success: isSuccessful(final, successCriteria),
+            exit_code: final.exitCode,
+            exit_signal: final.exitSignal,
+            timed_out: final.timedOut,
+            duration_ms: final.durationMs,
+            started_at: final.metrics.startedAt,
+            finished_at: final.metrics.finishedAt,
+            user_cpu_ms: final.metrics.userCpuMs,
+            system_cpu_ms: final.metrics.systemCpuMs,
+            max_rss_kb: final.metrics.maxRssKb,
+            attempts: commandRun.attempts.length,
+            stdout_file: final.stdoutFile,
+            stderr_file: final.stderrFile,
+            combined_file: final.combinedFile
+          }
+        })
+      )
+    )
 
     // Set outputs for other workflow steps to use
     core.setOutput('stdout_file', result.stdoutFile)
     core.setOutput('stderr_file', result.stderrFile)
+    core.setOutput('combined_file', result.combinedFile ?? '')
+    core.setOutput('stdout_bytes', result.stdoutBytes.toString())
+    core.setOutput('stderr_bytes', result.stderrBytes.toString())
+    core.setOutput('stdout_truncated', result.stdoutTruncated.toString())
+    core.setOutput('stderr_truncated', result.stderrTruncated.toString())
     core.setOutput('exit_code', result.exitCode.toString())
+    core.setOutput('exit_signal', result.exitSignal ?? '')
+    core.setOutput('timed_out', result.timedOut.toString())
+    core.setOutput('duration_ms', result.durationMs.toString())
+    core.setOutput('started_at', result.metrics.startedAt)
+    core.setOutput('finished_at', result.metrics.finishedAt)
+    core.setOutput('user_cpu_ms', result.metrics.userCpuMs?.toString() ?? '')
+    core.setOutput(
+      'system_cpu_ms',
+      result.metrics.systemCpuMs?.toString() ?? ''
+    )
+    core.setOutput('max_rss_kb', result.metrics.maxRssKb?.toString() ?? '')
+    core.setOutput('attempts', attempts.length.toString())
+    core.setOutput(
+      'attempt_outputs',
+      JSON.stringify(
+        attempts.map((attempt, index) => ({
+          attempt: index + 1,
+          exit_code: attempt.exitCode,
+          timed_out: attempt.timedOut,
+          duration_ms: attempt.durationMs,
+          stdout_file: attempt.stdoutFile,
+          stderr_file: attempt.stderrFile,
+          combined_file: attempt.combinedFile
+        }))
+      )
+    )
+
+    // Annotate the problems found in the output of the last attempt of each
+    // command
+    const problems = allRuns.flatMap(
+      (commandRun) => getFinalResult(commandRun).problems
+    )
+    for (const problem of problems) {
+      const annotate = problem.severity === 'error' ? core.error : core.warning
+      annotate(problem.message, {
+        title: problem.code,
+        file: problem.file,
+        startLine: problem.line,
+        endLine: problem.endLine,
+        startColumn: problem.column,
+        endColumn: problem.endColumn
+      })
+    }
+    const errorCount = problems.filter(
+      (problem) => problem.severity === 'error'
+    ).length
+    core.setOutput('error_count', errorCount.toString())
+    core.setOutput('warning_count', (problems.length - errorCount).toString())
+
+    // Publish small outputs directly. Outputs that are too large, or whose
+    // file is incomplete, are left empty and flagged instead. Like the summary,
+    // they are always redacted, since secrets matched by a pattern are not
+    // masked by the runner.
+    for (const stream of inlineOutputs) {
+      const fileTruncated =
+        stream === 'stdout' ? result.stdoutTruncated : result.stderrTruncated
+      const inline = fileTruncated
+        ? { value: '', truncated: true }
+        : await readInlineOutput(
+            stream === 'stdout' ? result.stdoutFile : result.stderrFile,
+            inlineMaxBytes,
+            inlineTrimNewlines
+          )
+      core.setOutput(stream, redact(inline.value, redaction))
+      core.setOutput(`${stream}_inline_truncated`, inline.truncated.toString())
+    }
+
+    // Extract outputs from the output files
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const values = await extractOutputs(
+        stream === 'stdout' ? result.stdoutFile : result.stderrFile,
+        extractions.filter((extraction) => extraction.stream === stream),
+        extractMode,
+        extractSeparator
+      )
+      for (const [name, value] of Object.entries(values)) {
+        core.setOutput(name, value)
+      }
+    }
+
+    // Set outputs from the JSON printed to stdout. When stdout cannot be
+    // parsed, they are left empty.
+    let jsonFailure: string | null = null
+    if (stdoutFormat !== 'text') {
+      let document: unknown
+      try {
+        document = parseStdoutJson(
+          readFileSync(result.stdoutFile, 'utf8'),
+          stdoutFormat
+        )
+      } catch (error) {
+        jsonFailure = `Failed to parse stdout as ${stdoutFormat}: ${(error as Error).message}${result.stdoutTruncated ? ' (stdout_file was truncated by max_output_bytes)' : ''}`
+      }
+      for (const output of jsonOutputs) {
+        core.setOutput(
+          output.name,
+          jsonFailure === null ? getJsonOutputValue(document, output.path) : ''
+        )
+      }
+    }
+
+    // Why the step failed, named after the input or rule that decided it
+    const decisiveIndex = sequence.runs.indexOf(decisive)
+    const teardownFailure =
+      sequence.teardown &&
+      describeFailure(
+        sequence.teardown,
+        successCriteria,
+        timeoutSeconds,
+        `Teardown command ("${teardown}")`
+      )
+    const commandFailure =
+      describeFailure(
+        decisive,
+        successCriteria,
+        timeoutSeconds,
+        commands.length > 1
+          ? `Command ${decisiveIndex + 1} of ${commands.length} ("${formatCommand(decisive.command)}")`
+          : null
+      ) ??
+      (teardownFailure && {
+        reason: 'teardown',
+        message: teardownFailure.message
+      })
+    const failure =
+      commandFailure ??
+      (jsonErrorMode === 'fail' && jsonFailure !== null
+        ? { reason: 'json_error', message: jsonFailure }
+        : null)
+    if (jsonFailure !== null && failure?.message !== jsonFailure) {
+      core.warning(jsonFailure)
+    }
+    core.setOutput('failure_reason', failure?.reason ?? '')
+    // The message may quote the command, which may contain secrets
+    const failureMessage = failure && redact(failure.message, redaction)
+
+    if (
+      summaryMode === 'always' ||
+      (summaryMode === 'on_failure' && failure !== null)
+    ) {
+      // The summary is published, so it is always redacted, even when the
+      // output files are not
+      core.addSummary(
+        formatSummary({
+          argv: result.args.map((arg) => redact(arg, redaction)),
+          exitCode: result.exitCode,
+          exitSignal: result.exitSignal,
+          timedOut: result.timedOut,
+          durationMs: result.durationMs,
+          attempts: attempts.length,
+          failure: failureMessage,
+          output: hideOutputs
+            ? null
+            : {
+                stdout: redact(
+                  await readTailLines(result.stdoutFile, summaryLines),
+                  redaction
+                ),
+                stderr: redact(
+                  await readTailLines(result.stderrFile, summaryLines),
+                  redaction
+                )
+              }
+        })
+      )
+    }
 
-    // Check if the exit code should be treated as success
-    if (!successExitCodes.has(result.exitCode)) {
-      core.setFailed(`Command exited with code ${result.exitCode}`)
+    if (failureMessage !== null) {
+      if (continueOnError) {
+        core.warning(failureMessage)
+      } else {
+        core.setFailed(failureMessage)
+      }
     }
   } catch (error) {
     // Fail the workflow run if an error occurs
@@ -44,16 +571,22 @@ export async function run(): Promise<void> {
 }
 
 /**
- * Create secure temporary output files for stdout and stderr.
+ * Create secure temporary output files for stdout and stderr, and optionally
+ * a combined output file.
  * Files are created atomically with exclusive access in RUNNER_TEMP.
  *
- * @returns Object containing file paths and file descriptors for stdout and stderr.
+ * @param options Optional file options.
+ * @param options.combined When true, also create the combined output file.
+ * @returns Object containing file paths and file descriptors for stdout and
+ *   stderr, and for the combined output file when requested.
  */
-function createOutputFiles(): {
+function createOutputFiles(options: { combined?: boolean } = {}): {
   stdoutPath: string
   stderrPath: string
   stdoutFd: number
   stderrFd: number
+  combinedPath?: string
+  combinedFd?: number
 } {
   // Get the temporary directory from RUNNER_TEMP environment variable
   const tempDir = process.env.RUNNER_TEMP || tmpdir()
@@ -92,11 +625,24 @@ function createOutputFiles(): {
     0o600
   )
 
+  if (!options.combined) {
+    return { stdoutPath, stderrPath, stdoutFd, stderrFd }
+  }
+
+  const combinedPath = join(tempDir, `${baseName}.log`)
+  const combinedFd = openSync(
+    combinedPath,
+    constants.O_CREAT | constants.O_EXCL | constants.O_WRONLY,
+    0o600
+  )
+
   return {
     stdoutPath,
     stderrPath,
     stdoutFd,
-    stderrFd
+    stderrFd,
+    combinedPath,
+    combinedFd
   }
 }
 
@@ -167,6 +713,474 @@ export function parseSuccessExitCodes(input: string): Set<number> {
   return exitCodes
 }
 
+/**
+ * Parse an input expressed as a number of seconds.
+ * Fractional values are allowed (e.g., "0.5").
+ *
+ * @param input The input string.
+ * @param name The name of the input, used in error messages.
+ * @param defaultValue The value to use when the input is empty.
+ * @returns The number of seconds.
+ */
+export function parseSeconds(
+  input: string,
+  name: string,
+  defaultValue: number = 0
+): number {
+  if (!input || input.trim() === '') {
+    return defaultValue
+  }
+
+  const seconds = Number(input.trim())
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(
+      `Invalid ${name}: "${input}". Expected a non-negative number of seconds`
+    )
+  }
+
+  return seconds
+}
+
+/**
+ * Parse an input expressed as a non-negative integer.
+ *
+ * @param input The input string.
+ * @param name The name of the input, used in error messages.
+ * @param defaultValue The value to use when the input is empty.
+ * @returns The parsed integer.
+ */
+export function parseNonNegativeInteger(
+  input: string,
+  name: string,
+  defaultValue: number = 0
+): number {
+  if (!input || input.trim() === '') {
+    return defaultValue
+  }
+
+  const value = Number(input.trim())
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(
+      `Invalid ${name}: "${input}". Expected a non-negative integer`
+    )
+  }
+
+  return value
+}
+
+/**
+ * Parse a signal name.
+ * The "SIG" prefix is optional and names are case-insensitive
+ * (e.g., "SIGTERM", "term").
+ *
+ * @param input The signal name.
+ * @returns The normalized signal name.
+ */
+export function parseSignal(input: string): NodeJS.Signals {
+  const name = input.trim().toUpperCase()
+  const signal = name.startsWith('SIG') ? name : `SIG${name}`
+
+  if (!Object.hasOwn(osConstants.signals, signal)) {
+    throw new Error(
+      `Invalid signal: "${input}". Expected a signal name (e.g., "SIGTERM")`
+    )
+  }
+
+  return signal as NodeJS.Signals
+}
+
+/**
+ * Get the shell-style exit code for a process terminated by a signal.
+ *
+ * @param signal The signal that terminated the process.
+ * @returns 128 + the signal number, or 128 if the signal is unknown.
+ */
+function getSignalExitCode(signal: NodeJS.Signals | null): number {
+  return 128 + ((signal && osConstants.signals[signal]) || 0)
+}
+
+/**
+ * Parse the success signals input.
+ * Accepts a comma-separated list of signal names (e.g., "SIGTERM,SIGINT").
+ *
+ * @param input The success signals input string.
+ * @returns A Set of signals whose termination should be treated as success.
+ */
+export function parseSuccessSignals(input: string): Set<NodeJS.Signals> {
+  const signals = new Set<NodeJS.Signals>()
+
+  if (!input || input.trim() === '') {
+    return signals
+  }
+
+  for (const part of input.split(',')) {
+    signals.add(parseSignal(part))
+  }
+
+  return signals
+}
+
+/**
+ * Criteria deciding whether a command result is treated as success.
+ */
+export interface SuccessCriteria {
+  /** Exit codes treated as success when the command exits normally. */
+  exitCodes: Set<number>
+  /** Signals treated as success when the command is terminated by one. */
+  signals: Set<NodeJS.Signals>
+}
+
+/**
+ * Check whether a command result is treated as success.
+ * A command terminated by a signal only succeeds if that signal is one of the
+ * success signals; its shell-style exit code is not checked against the
+ * success exit codes, so that a crash is never mistaken for a normal exit.
+ * A command that timed out, or whose output broke an output rule, never
+ * succeeds.
+ *
+ * @param result The command result.
+ * @param criteria The success criteria.
+ * @returns True if the result is treated as success.
+ */
+export function isSuccessful(
+  result: Pick<ExecuteCommandResult, 'exitCode' | 'exitSignal' | 'timedOut'> &
+    Partial<Pick<ExecuteCommandResult, 'outputFailure'>>,
+  criteria: SuccessCriteria
+): boolean {
+  if (result.timedOut || result.outputFailure) {
+    return false
+  }
+
+  if (result.exitSignal) {
+    return criteria.signals.has(result.exitSignal)
+  }
+
+  return criteria.exitCodes.has(result.exitCode)
+}
+
+/**
+ * How the delay between retry attempts grows.
+ */
+export type RetryBackoff = 'constant' | 'linear' | 'exponential'
+
+/**
+ * Policy controlling whether and when a failed command is retried.
+ */
+export interface RetryPolicy {
+  /** Number of additional attempts after the first one. */
+  retries: number
+  /** Base delay between attempts. */
+  delaySeconds: number
+  backoff: RetryBackoff
+  /** Exit codes that trigger a retry. null retries on any failure. */
+  retryOnExitCodes: Set<number> | null
+}
+
+/**
+ * Parse the retry backoff input.
+ *
+ * @param input The retry backoff input string.
+ * @returns The retry backoff strategy. Defaults to "constant".
+ */
+export function parseRetryBackoff(input: string): RetryBackoff {
+  const backoff = input.trim().toLowerCase() || 'constant'
+
+  if (
+    backoff !== 'constant' &&
+    backoff !== 'linear' &&
+    backoff !== 'exponential'
+  ) {
+    throw new Error(
+      `Invalid retry_backoff: "${input}". Expected "constant", "linear" or "exponential"`
+    )
+  }
+
+  return backoff
+}
+
+/**
+ * Compute the delay before the next attempt.
+ * Exponential backoff doubles the delay after every attempt and applies
+ * jitter, picking a delay between half and all of the computed value, so that
+ * concurrent jobs retrying against the same service spread out.
+ *
+ * @param policy The retry policy.
+ * @param attempt The number of the attempt that just failed (1-based).
+ * @param random Source of randomness in [0, 1), used for jitter.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelayMs(
+  policy: Pick<RetryPolicy, 'delaySeconds' | 'backoff'>,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const baseMs = policy.delaySeconds * 1000
+
+  switch (policy.backoff) {
+    case 'linear':
+      return Math.round(baseMs * attempt)
+    case 'exponential': {
+      const delayMs = baseMs * 2 ** (attempt - 1)
+      return Math.round(delayMs / 2 + (random() * delayMs) / 2)
+    }
+    default:
+      return Math.round(baseMs)
+  }
+}
+
+/**
+ * A command to execute: either a command line, which is split into the
+ * executable and its arguments by parseCommand (or run by a shell), or the
+ * executable and its arguments, used as they are.
+ */
+export type Command = string | string[]
+
+/**
+ * Format a command for messages.
+ *
+ * @param command The command.
+ * @returns The command line, or the JSON array of the executable and its
+ *   arguments.
+ */
+function formatCommand(command: Command): string {
+  return typeof command === 'string' ? command : JSON.stringify(command)
+}
+
+/**
+ * Execute a command, retrying failed attempts according to the retry policy.
+ * Every attempt captures its output to its own files.
+ *
+ * @param command The command to execute.
+ * @param options Execution options applied to every attempt.
+ * @param successCriteria Which results are treated as success.
+ * @param policy The retry policy.
+ * @returns The results of all attempts, in order. The last one is final.
+ */
+async function executeWithRetries(
+  command: Command,
+  options: ExecuteCommandOptions,
+  successCriteria: SuccessCriteria,
+  policy: RetryPolicy
+): Promise<ExecuteCommandResult[]> {
+  const attempts: ExecuteCommandResult[] = []
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await executeCommand(command, {
+      ...options,
+      successCriteria
+    })
+    attempts.push(result)
+
+    const succeeded = isSuccessful(result, successCriteria)
+    const retryable =
+      policy.retryOnExitCodes === null ||
+      policy.retryOnExitCodes.has(result.exitCode)
+
+    if (succeeded || !retryable || attempt > policy.retries) {
+      return attempts
+    }
+
+    const delayMs = getRetryDelayMs(policy, attempt)
+    core.debug(
+      `Attempt ${attempt} failed with exit code ${result.exitCode}, retrying in ${delayMs}ms`
+    )
+    await sleep(delayMs)
+  }
+}
+
+/**
+ * The attempts made to run one command.
+ */
+interface CommandRun {
+  command: Command
+  attempts: ExecuteCommandResult[]
+}
+
+/**
+ * Get the result of the last attempt of a command, which is final.
+ *
+ * @param commandRun The attempts made to run the command.
+ * @returns The final result.
+ */
+function getFinalResult(commandRun: CommandRun): ExecuteCommandResult {
+  return commandRun.attempts[commandRun.attempts.length - 1]
+}
+
+/**
+ * Execute commands, each with retries, followed by a teardown command that
+ * runs even when a command failed or could not be started. Commands start in
+ * order; with a concurrency limit above 1, up to that many run at once and
+ * the live output of each line is labelled with the command it came from
+ * instead of being grouped.
+ *
+ * @param commands The commands to execute.
+ * @param teardown The teardown command, or "" for none.
+ * @param options Execution options applied to every command.
+ * @param successCriteria Which results are treated as success.
+ * @param policy The retry policy applied to every command.
+ * @param concurrency How the commands are scheduled.
+ * @param concurrency.failFast When true, no further commands are started
+ *   after a command failed. Commands already running are left to finish.
+ * @param concurrency.maxParallel The maximum number of commands running at
+ *   once. 1 runs them one after another.
+ * @returns The attempts made to run each command that ran, in order, and the
+ *   attempts made to run the teardown command.
+ */
+async function executeSequence(
+  commands: Command[],
+  teardown: string,
+  options: ExecuteCommandOptions,
+  successCriteria: SuccessCriteria,
+  policy: RetryPolicy,
+  concurrency: { failFast: boolean; maxParallel: number }
+): Promise<{ runs: CommandRun[]; teardown: CommandRun | null }> {
+  const { failFast, maxParallel } = concurrency
+  const runs: Array<CommandRun | undefined> = []
+  let sequenceError: unknown = null
+  let stopped = false
+  let next = 0
+
+  // Each worker starts the next command once its previous one has finished
+  const worker = async () => {
+    while (!stopped && next < commands.length) {
+      const index = next++
+      const command = commands[index]
+      try {
+        const attempts = await executeWithRetries(
+          command,
+          maxParallel > 1
+            ? {
+                ...options,
+                logPrefix: getCommandLabel(command, index),
+                logGroup: null
+              }
+            : options,
+          successCriteria,
+          policy
+        )
+        runs[index] = { command, attempts }
+
+        if (
+          failFast &&
+          !stopped &&
+          !isSuccessful(attempts[attempts.length - 1], successCriteria)
+        ) {
+          if (next < commands.length) {
+            core.debug(`Command failed, skipping the remaining commands`)
+          }
+          stopped = true
+        }
+      } catch (error) {
+        sequenceError ??= error
+        stopped = true
+      }
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(maxParallel, commands.length) }, worker)
+  )
+
+  let teardownRun: CommandRun | null = null
+  if (teardown) {
+    try {
+      teardownRun = {
+        command: teardown,
+        attempts: await executeWithRetries(
+          teardown,
+          options,
+          successCriteria,
+          policy
+        )
+      }
+    } catch (error) {
+      // An error starting a command is reported before one in the teardown
+      sequenceError ??= error
+    }
+  }
+
+  if (sequenceError !== null) {
+    throw sequenceError
+  }
+
+  return {
+    runs: runs.filter((commandRun) => commandRun !== undefined),
+    teardown: teardownRun
+  }
+}
+
+/**
+ * Get the label that prefixes the live output of a command run in parallel:
+ * its position in the list and the name of its executable
+ * (e.g., "[2:eslint] ").
+ *
+ * @param command The command.
+ * @param index The position of the command in the list, from 0.
+ * @returns The label, including a trailing space.
+ */
+function getCommandLabel(command: Command, index: number): string {
+  const executable =
+    typeof command === 'string'
+      ? command
+          .trim()
+          .split(/\s+/)[0]
+          .replace(/^["']|["']$/g, '')
+      : (command[0] ?? '')
+  return `[${index + 1}:${basename(executable)}] `
+}
+
+/**
+ * Describe why a command failed.
+ *
+ * @param commandRun The attempts made to run the command.
+ * @param successCriteria Which results are treated as success.
+ * @param timeoutSeconds The timeout of the command.
+ * @param name How the command is named in the message, or null for a single
+ *   command.
+ * @returns The reason (the input or rule that decided the failure) and a
+ *   message, or null if the command succeeded.
+ */
+function describeFailure(
+  commandRun: CommandRun,
+  successCriteria: SuccessCriteria,
+  timeoutSeconds: number,
+  name: string | null
+): { reason: string; message: string } | null {
+  const result = getFinalResult(commandRun)
+  const label = name ?? 'Command'
+  const attemptsSuffix =
+    commandRun.attempts.length > 1
+      ? ` (after ${commandRun.attempts.length} attempts)`
+      : ''
+
+  if (result.timedOut) {
+    return {
+      reason: 'timeout',
+      message: `${label} timed out after ${timeoutSeconds} seconds${attemptsSuffix}`
+    }
+  }
+
+  if (!isSuccessful({ ...result, outputFailure: null }, successCriteria)) {
+    return result.exitSignal
+      ? {
+          reason: 'signal',
+          message: `${label} was terminated by signal ${result.exitSignal} (exit code ${result.exitCode})${attemptsSuffix}`
+        }
+      : {
+          reason: 'exit_code',
+          message: `${label} exited with code ${result.exitCode}${attemptsSuffix}`
+        }
+  }
+
+  if (result.outputFailure) {
+    return {
+      reason: result.outputFailure.reason,
+      message: `${name ? `${name}: ` : ''}${result.outputFailure.message}${attemptsSuffix}`
+    }
+  }
+
+  return null
+}
+
 /**
  * Set up signal handlers to forward signals to the child process.
  *
@@ -187,44 +1201,439 @@ function setupSignalHandlers(child: ReturnType<typeof spawn>): () => void {
   const signalHandlers = new Map<NodeJS.Signals, () => void>()
   for (const signal of signals) {
     const handler = () => {
-      core.debug(`Received ${signal}, forwarding to child process`)
-      child.kill(signal)
+      core.debug(`Received ${signal}, forwarding to child process ${child.pid}`)
+      signalCommand(child, signal)
     }
     signalHandlers.set(signal, handler)
     process.on(signal, handler)
   }
 
+  // Commands running in parallel each add a handler per signal, which would
+  // otherwise trigger a possible memory leak warning
+  const maxListeners = process.getMaxListeners()
+  if (maxListeners !== 0) {
+    process.setMaxListeners(maxListeners + 1)
+  }
+
   // Return cleanup function
   return () => {
+    if (signalHandlers.size === 0) {
+      return
+    }
     for (const [signal, handler] of signalHandlers) {
       process.removeListener(signal, handler)
     }
     signalHandlers.clear()
+    if (maxListeners !== 0) {
+      process.setMaxListeners(process.getMaxListeners() - 1)
+    }
+  }
+}
+
+/**
+ * Set up a timeout that terminates the child process when it runs too long.
+ * The timeout signal is sent first; if the process is still running after the
+ * grace period, it is sent SIGKILL.
+ *
+ * @param child The child process to terminate.
+ * @param options Timeout options.
+ * @param options.timeoutSeconds Seconds before the timeout signal is sent.
+ *   0 disables the timeout.
+ * @param options.killGraceSeconds Seconds between the timeout signal and
+ *   SIGKILL.
+ * @param options.timeoutSignal The signal sent when the timeout expires.
+ * @returns Functions to query whether the timeout fired and to clear it.
+ */
+function setupTimeout(
+  child: ReturnType<typeof spawn>,
+  options: {
+    timeoutSeconds: number
+    killGraceSeconds: number
+    timeoutSignal: NodeJS.Signals
+  }
+): { timedOut: () => boolean; clear: () => void } {
+  const { timeoutSeconds, killGraceSeconds, timeoutSignal } = options
+  let timedOut = false
+  let killTimer: NodeJS.Timeout | undefined
+
+  const timeoutTimer =
+    timeoutSeconds > 0
+      ? setTimeout(() => {
+          timedOut = true
+          core.debug(
+            `Command timed out after ${timeoutSeconds}s, sending ${timeoutSignal}`
+          )
+          signalCommand(child, timeoutSignal)
+
+          killTimer = setTimeout(() => {
+            core.debug(
+              `Command still running ${killGraceSeconds}s after ${timeoutSignal}, sending SIGKILL`
+            )
+            signalCommand(child, 'SIGKILL')
+          }, killGraceSeconds * 1000)
+        }, timeoutSeconds * 1000)
+      : undefined
+
+  return {
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timeoutTimer)
+      clearTimeout(killTimer)
+    }
+  }
+}
+
+/**
+ * Where the command reads its standard input from.
+ */
+export type StdinSource =
+  | { mode: 'inherit' }
+  | { mode: 'null' }
+  | { mode: 'text'; text: string }
+  | { mode: 'file'; path: string }
+
+/**
+ * Parse the stdin inputs.
+ * When stdin_mode is empty, it is inferred from whichever of stdin and
+ * stdin_file is set, falling back to "inherit".
+ *
+ * @param mode The stdin_mode input string.
+ * @param text The stdin input string.
+ * @param file The stdin_file input string.
+ * @returns The source of the command's standard input.
+ */
+export function parseStdinSource(
+  mode: string,
+  text: string,
+  file: string
+): StdinSource {
+  if (text && file) {
+    throw new Error('Only one of stdin and stdin_file can be set')
+  }
+
+  const resolvedMode =
+    mode.trim().toLowerCase() || (text ? 'text' : file ? 'file' : 'inherit')
+
+  switch (resolvedMode) {
+    case 'inherit':
+    case 'null':
+      if (text || file) {
+        throw new Error(
+          `stdin and stdin_file cannot be used with stdin_mode "${resolvedMode}"`
+        )
+      }
+      return { mode: resolvedMode }
+    case 'text':
+      if (file) {
+        throw new Error('stdin_file cannot be used with stdin_mode "text"')
+      }
+      // Inputs are trimmed, so restore the final newline most tools expect
+      return { mode: 'text', text: text ? `${text}\n` : '' }
+    case 'file':
+      if (!file) {
+        throw new Error('stdin_file is required when stdin_mode is "file"')
+      }
+      return { mode: 'file', path: file }
+    default:
+      throw new Error(
+        `Invalid stdin_mode: "${mode}". Expected "inherit", "null", "text" or "file"`
+      )
+  }
+}
+
+/**
+ * Get the streams that feed the log and the output file from one of the
+ * child's output streams, inserting a redactor where secrets must be removed.
+ * A single redactor is shared when both need redacting.
+ *
+ * @param source The child's stdout or stderr.
+ * @param redaction The secrets to redact.
+ * @param redact Which destinations need redacted output.
+ * @param redact.log Whether output streamed to the log is redacted.
+ * @param redact.files Whether output written to files is redacted.
+ * @returns The streams to read the log and file output from.
+ */
+function getOutputSources(
+  source: Readable,
+  redaction: RedactionRules,
+  redact: { log: boolean; files: boolean }
+): { log: Readable; file: Readable } {
+  const redacted =
+    redact.log || redact.files ? source.pipe(createRedactor(redaction)) : source
+
+  return {
+    log: redact.log ? redacted : source,
+    file: redact.files ? redacted : source
+  }
+}
+
+/**
+ * Write the lines of stdout and stderr to the combined output file in the
+ * order they arrive, ending the file once both streams have ended.
+ *
+ * @param sources The stdout and stderr streams to interleave.
+ * @param sources.stdout The stdout stream, if any.
+ * @param sources.stderr The stderr stream, if any.
+ * @param combinedFileStream The combined output file.
+ * @param format The format of the combined output file.
+ */
+function interleaveOutputs(
+  sources: { stdout: Readable | null; stderr: Readable | null },
+  combinedFileStream: Writable,
+  format: CombinedFormat
+): void {
+  let openSources = 0
+
+  for (const name of ['stdout', 'stderr'] as const) {
+    const source = sources[name]
+    if (!source) continue
+    openSources++
+
+    const splitter = createLineSplitter((line, timeNs) => {
+      combinedFileStream.write(formatCombinedLine(format, name, line, timeNs))
+    })
+    source.on('data', splitter.write)
+    source.on('end', () => {
+      splitter.end()
+      if (--openSources === 0) combinedFileStream.end()
+    })
+  }
+
+  if (openSources === 0) combinedFileStream.end()
+}
+
+/**
+ * Read the lines of stdout and stderr as they arrive, calling onEnd once both
+ * streams have ended.
+ *
+ * @param sources The stdout and stderr streams to read.
+ * @param sources.stdout The stdout stream, if any.
+ * @param sources.stderr The stderr stream, if any.
+ * @param onLine Called for every line, with the stream it was printed to.
+ * @param onEnd Called once both streams have ended.
+ */
+function scanLines(
+  sources: { stdout: Readable | null; stderr: Readable | null },
+  onLine: (stream: OutputStreamName, line: string) => void,
+  onEnd: () => void
+): void {
+  let openSources = 0
+
+  for (const name of ['stdout', 'stderr'] as const) {
+    const source = sources[name]
+    if (!source) continue
+    openSources++
+
+    const splitter = createLineSplitter((line) => onLine(name, line))
+    source.on('data', splitter.write)
+    source.on('end', () => {
+      splitter.end()
+      if (--openSources === 0) onEnd()
+    })
   }
+
+  if (openSources === 0) onEnd()
+}
+
+/**
+ * Get the stdio setting for the command's standard input.
+ *
+ * @param stdin The source of the command's standard input.
+ * @returns The value to use for stdio[0] when spawning the command.
+ */
+function getStdinStdio(stdin: StdinSource): 'inherit' | 'ignore' | 'pipe' {
+  switch (stdin.mode) {
+    case 'inherit':
+      return 'inherit'
+    case 'null':
+      return 'ignore'
+    default:
+      return 'pipe'
+  }
+}
+
+/**
+ * Options for executing a command.
+ */
+export interface ExecuteCommandOptions {
+  /**
+   * When true, stdout and stderr are only written to files and are not
+   * forwarded to process.stdout/process.stderr.
+   */
+  hideOutputs?: boolean
+  /** Seconds to wait before terminating the command. 0 disables the timeout. */
+  timeoutSeconds?: number
+  /** Seconds to wait after the timeout signal before sending SIGKILL. */
+  killGraceSeconds?: number
+  /** The signal sent to the command when the timeout expires. */
+  timeoutSignal?: NodeJS.Signals
+  /** The working directory of the command. Defaults to the action's. */
+  cwd?: string
+  /** The environment of the command. Defaults to the action's. */
+  env?: NodeJS.ProcessEnv
+  /** Where the command reads its standard input from. Defaults to inherit. */
+  stdin?: StdinSource
+  /**
+   * The format of the combined output file, which interleaves stdout and
+   * stderr lines in arrival order. null (the default) disables it.
+   */
+  combinedFormat?: CombinedFormat | null
+  /**
+   * The maximum number of bytes written to each output file. 0 (the default)
+   * means unlimited. The combined output file is limited to twice this size.
+   */
+  maxOutputBytes?: number
+  /** Which part of the output is kept once it exceeds maxOutputBytes. */
+  truncateStrategy?: TruncateStrategy
+  /** Secrets to redact from the output streamed to the log. */
+  redaction?: RedactionRules
+  /** When true, secrets are also redacted from the output files. */
+  redactFiles?: boolean
+  /** Problem matchers applied to each line of stdout and stderr. */
+  problemMatchers?: ProblemMatcher[]
+  /** Rules the output must follow, in addition to the success criteria. */
+  outputRules?: OutputRules
+  /**
+   * When set, the command is written to a script and run with this shell.
+   * null (the default) runs the command directly.
+   */
+  shell?: ShellTemplate | null
+  /** How the command is split into arguments. Defaults to "legacy". */
+  parseMode?: ParseMode
+  /**
+   * When true, environment variables in the command are expanded from env,
+   * except inside single quotes. Commands run with a shell are left to it.
+   */
+  expandEnv?: boolean
+  /**
+   * When true, processes the command left running in its process group are
+   * terminated once it exits. Not supported on Windows.
+   */
+  killOrphans?: boolean
+  /**
+   * Seconds between SIGTERM and SIGKILL when terminating processes left
+   * running by the command.
+   */
+  killOrphansGraceSeconds?: number
+  /**
+   * Text added before each line of the output forwarded to
+   * process.stdout/process.stderr, to tell apart commands running in parallel.
+   * Lines are then forwarded whole. Unset (the default) forwards output as it
+   * arrives.
+   */
+  logPrefix?: string
+  /**
+   * When set, the output forwarded to process.stdout/process.stderr is
+   * wrapped in a collapsible group, ended by a line with the exit code and
+   * duration. null (the default) forwards it without a group.
+   */
+  logGroup?: LogGroup | null
+  /**
+   * Which results the line ending the log group reports as success. Defaults
+   * to exit code 0.
+   */
+  successCriteria?: SuccessCriteria
+  /**
+   * When false, the runner does not process workflow commands (such as
+   * "::add-mask::" or "::error::") in the command's output while it runs, and
+   * output is forwarded to the log line by line. Defaults to true.
+   */
+  allowWorkflowCommands?: boolean
+}
+
+/**
+ * The result of executing a command.
+ */
+export interface ExecuteCommandResult {
+  /** The executable and arguments the command was run with. */
+  args: string[]
+  stdoutFile: string
+  stderrFile: string
+  /** The combined output file, or null if it was not requested. */
+  combinedFile: string | null
+  /** The number of bytes the command wrote to stdout. */
+  stdoutBytes: number
+  /** The number of bytes the command wrote to stderr. */
+  stderrBytes: number
+  /** Whether stdoutFile is missing output because of maxOutputBytes. */
+  stdoutTruncated: boolean
+  /** Whether stderrFile is missing output because of maxOutputBytes. */
+  stderrTruncated: boolean
+  /**
+   * The exit code of the command. When the command is terminated by a signal,
+   * this is the shell-style code 128 + the signal number.
+   */
+  exitCode: number
+  /** The signal that terminated the command, or null if it exited normally. */
+  exitSignal: NodeJS.Signals | null
+  /** Whether the command was terminated because it exceeded its timeout. */
+  timedOut: boolean
+  /** Wall-clock time between spawning the command and its completion. */
+  durationMs: number
+  /** When the command ran and the resources it used. */
+  metrics: CommandMetrics
+  /** The problems found by the problem matchers, in order. */
+  problems: Problem[]
+  /** The first output rule broken by the output, or null if none was. */
+  outputFailure: OutputFailure | null
 }
 
 /**
  * Execute a command and capture its output to files.
  *
- * @param command The command to execute.
+ * @param command The command to execute. An array is used as the executable
+ *   and its arguments without parsing, even when a shell is set.
  * @param options Optional execution options.
- * @param options.hideOutputs When true, stdout and stderr are only written to
- *   files and are not forwarded to process.stdout/process.stderr.
  * @returns A promise that resolves with file paths and exit code.
  */
 export async function executeCommand(
-  command: string,
-  options: { hideOutputs?: boolean } = {}
-): Promise<{
-  stdoutFile: string
-  stderrFile: string
-  exitCode: number
-}> {
-  const { hideOutputs = false } = options
+  command: Command,
+  options: ExecuteCommandOptions = {}
+): Promise<ExecuteCommandResult> {
+  const {
+    hideOutputs = false,
+    timeoutSeconds = 0,
+    killGraceSeconds = 10,
+    timeoutSignal = 'SIGTERM',
+    cwd,
+    env,
+    stdin = { mode: 'inherit' },
+    combinedFormat = null,
+    maxOutputBytes = 0,
+    truncateStrategy = 'head',
+    redaction = { literals: [], patterns: [] },
+    redactFiles = false,
+    problemMatchers = [],
+    outputRules = {
+      failOnStderr: false,
+      failIfMatches: [],
+      requireMatches: []
+    },
+    shell = null,
+    parseMode = 'legacy',
+    expandEnv = false,
+    killOrphans = false,
+    killOrphansGraceSeconds = 5,
+    logPrefix,
+    logGroup = null,
+    successCriteria = { exitCodes: new Set([0]), signals: new Set() },
+    allowWorkflowCommands = true
+  } = options
 
   // Parse command into executable and arguments
   // Simple parsing that splits on whitespace while respecting quoted strings
-  const args = parseCommand(command)
+  // With a shell, the command is written to a script instead, and the shell
+  // handles quoting, pipes and redirects
+  const args =
+    typeof command !== 'string'
+      ? [...command]
+      : shell && command.trim() !== ''
+        ? getShellArgs(shell, writeShellScript(command, shell))
+        : parseCommand(
+            command,
+            parseMode,
+            expandEnv ? (env ?? process.env) : null
+          )
   if (args.length === 0) {
     throw new Error('Command cannot be empty')
   }
@@ -232,8 +1641,19 @@ export async function executeCommand(
   const executable = args[0]
   const commandArgs = args.slice(1)
 
+  // Open the stdin file before the output files, so a missing file fails
+  // early without leaking their descriptors
+  const stdinFd = stdin.mode === 'file' ? openSync(stdin.path, 'r') : undefined
+
   // Create output files
-  const { stdoutPath, stderrPath, stdoutFd, stderrFd } = createOutputFiles()
+  const {
+    stdoutPath,
+    stderrPath,
+    stdoutFd,
+    stderrFd,
+    combinedPath,
+    combinedFd
+  } = createOutputFiles({ combined: combinedFormat !== null })
 
   // Create write streams for the output files
   // autoClose: true ensures the fd is closed when the stream ends
@@ -245,36 +1665,143 @@ export async function executeCommand(
     fd: stderrFd,
     autoClose: true
   })
+  const combinedFileStream =
+    combinedFd !== undefined
+      ? createWriteStream('', { fd: combinedFd, autoClose: true })
+      : undefined
+
+  // Limit how much is written to disk. The limiters always consume their
+  // input, so a command printing too much is never blocked on a full pipe.
+  const stdoutLimiter = createOutputLimiter(maxOutputBytes, truncateStrategy)
+  const stderrLimiter = createOutputLimiter(maxOutputBytes, truncateStrategy)
+  const combinedLimiter = createOutputLimiter(maxOutputBytes * 2, 'head')
+
+  // The group is titled with the arguments, which may contain secrets
+  const grouped = logGroup !== null && !hideOutputs
+  if (grouped) {
+    const title = formatGroupTitle(logGroup.title, args)
+    core.startGroup(
+      hasRedactionRules(redaction) ? redact(title, redaction) : title
+    )
+  }
 
   return new Promise((resolve, reject) => {
     // Execute command directly without shell
+    const startTime = process.hrtime.bigint()
+    const startedAtMs = Date.now()
+    // The command leads its own process group, so that signals also reach
+    // the processes it starts
     const child = spawn(executable, commandArgs, {
-      stdio: ['inherit', 'pipe', 'pipe']
+      stdio: [getStdinStdio(stdin), 'pipe', 'pipe'],
+      cwd,
+      env,
+      detached: USE_PROCESS_GROUPS
     })
+    const resourceMonitor = startResourceMonitor(child.pid)
+    // The action's own workflow commands are held back until they are resumed
+    const resumeCommands = allowWorkflowCommands ? null : core.stopCommands()
+
+    // Feed stdin. Files are streamed rather than read into memory.
+    // A command may exit without reading all of its input, so write errors
+    // such as EPIPE are expected and only logged.
+    const stdinFileStream =
+      stdinFd !== undefined
+        ? createReadStream('', { fd: stdinFd, autoClose: true })
+        : undefined
+    if (child.stdin) {
+      child.stdin.on('error', (error: Error) => {
+        core.debug(`Failed to write to stdin: ${error.message}`)
+        stdinFileStream?.destroy()
+      })
+      if (stdin.mode === 'text') {
+        child.stdin.end(stdin.text)
+      } else {
+        stdinFileStream?.pipe(child.stdin)
+      }
+    }
 
     let settled = false
     let stdoutStreamFinished = !child.stdout // If no stdout, mark as finished
     let stderrStreamFinished = !child.stderr // If no stderr, mark as finished
+    let combinedStreamFinished = !combinedFileStream
+    let orphansSwept = !killOrphans || !USE_PROCESS_GROUPS
+    // Whether all output forwarded to the log has been written, so that the
+    // group ends after it
+    let stdoutLogged = true
+    let stderrLogged = true
+    // Problems are matched in each stream separately, so that a problem
+    // spanning several lines is not broken up by the other stream
+    const problemMatcherPaths = {
+      cwd: cwd ?? process.cwd(),
+      workspace: process.env['GITHUB_WORKSPACE'] || cwd || process.cwd()
+    }
+    const matchProblems = {
+      stdout: createProblemMatcher(problemMatchers, problemMatcherPaths),
+      stderr: createProblemMatcher(problemMatchers, problemMatcherPaths)
+    }
+    const problems: Problem[] = []
+    const outputChecker = createOutputChecker(outputRules, !hideOutputs)
+    const scanOutput = problemMatchers.length > 0 || hasOutputRules(outputRules)
+    let outputScanned = !scanOutput
     let childExitCode: number | null = null
+    let childExitSignal: NodeJS.Signals | null = null
+    let durationMs = 0
 
     // Set up signal forwarding
     const cleanupSignalHandlers = setupSignalHandlers(child)
 
+    // Set up the timeout, escalating to SIGKILL if the command outlives the
+    // grace period after the timeout signal
+    const timeout = setupTimeout(child, {
+      timeoutSeconds,
+      killGraceSeconds,
+      timeoutSignal
+    })
+
     // Function to check if all streams are done and resolve
     const checkIfComplete = () => {
       if (
         !settled &&
         childExitCode !== null &&
         stdoutStreamFinished &&
-        stderrStreamFinished
+        stderrStreamFinished &&
+        combinedStreamFinished &&
+        outputScanned &&
+        orphansSwept &&
+        stdoutLogged &&
+        stderrLogged
       ) {
         settled = true
         cleanupSignalHandlers()
-        resolve({
+        timeout.clear()
+        resumeCommands?.()
+        const result: ExecuteCommandResult = {
+          args,
           stdoutFile: stdoutPath,
           stderrFile: stderrPath,
-          exitCode: childExitCode
-        })
+          combinedFile: combinedPath ?? null,
+          stdoutBytes: stdoutLimiter.totalBytes(),
+          stderrBytes: stderrLimiter.totalBytes(),
+          stdoutTruncated: stdoutLimiter.truncated(),
+          stderrTruncated: stderrLimiter.truncated(),
+          exitCode: childExitCode,
+          exitSignal: childExitSignal,
+          timedOut: timeout.timedOut(),
+          durationMs,
+          metrics: {
+            startedAt: new Date(startedAtMs).toISOString(),
+            finishedAt: new Date(startedAtMs + durationMs).toISOString(),
+            ...resourceMonitor.stop()
+          },
+          problems,
+          outputFailure: outputChecker.failure()
+        }
+        if (grouped) {
+          const succeeded = isSuccessful(result, successCriteria)
+          core.info(formatGroupFooter(result, succeeded))
+          core.endGroup()
+        }
+        resolve(result)
       }
     }
 
@@ -289,12 +1816,67 @@ export async function executeCommand(
       checkIfComplete()
     })
 
+    combinedFileStream?.on('finish', () => {
+      combinedStreamFinished = true
+      checkIfComplete()
+    })
+
+    // Redact secrets before output reaches the log and, when requested, the
+    // output files. Files are truncated after redaction so that truncation
+    // never cuts a secret in half. Problems and output rules are matched in
+    // the redacted log output, even when it is hidden, since the lines they
+    // match are written to the log.
+    const redactOptions = {
+      log: (!hideOutputs || scanOutput) && hasRedactionRules(redaction),
+      files: redactFiles && hasRedactionRules(redaction)
+    }
+    const stdout =
+      child.stdout && getOutputSources(child.stdout, redaction, redactOptions)
+    const stderr =
+      child.stderr && getOutputSources(child.stderr, redaction, redactOptions)
+
+    if (combinedFileStream && combinedFormat) {
+      combinedLimiter.stream.pipe(combinedFileStream)
+      interleaveOutputs(
+        { stdout: stdout?.file ?? null, stderr: stderr?.file ?? null },
+        combinedLimiter.stream,
+        combinedFormat
+      )
+    }
+
+    if (scanOutput) {
+      scanLines(
+        { stdout: stdout?.log ?? null, stderr: stderr?.log ?? null },
+        (stream, line) => {
+          problems.push(...matchProblems[stream](line))
+          outputChecker.check(stream, line)
+        },
+        () => {
+          outputScanned = true
+          checkIfComplete()
+        }
+      )
+    }
+
+    // Output from commands running in parallel is forwarded line by line, so
+    // that their lines do not mix. While workflow commands are stopped, it is
+    // too, so that the line resuming them is never joined to the output.
+    const lineBuffered = logPrefix !== undefined || !allowWorkflowCommands
+
     // Pipe stdout to file, and optionally to process.stdout
     // By default, stream.end() is called on the destination when source emits 'end'
-    if (child.stdout) {
-      child.stdout.pipe(stdoutFileStream)
+    if (stdout) {
+      stdout.file.pipe(stdoutLimiter.stream).pipe(stdoutFileStream)
       if (!hideOutputs) {
-        child.stdout.pipe(process.stdout)
+        const stdoutLog = lineBuffered
+          ? stdout.log.pipe(createLinePrefixer(logPrefix ?? ''))
+          : stdout.log
+        stdoutLogged = false
+        stdoutLog.on('end', () => {
+          stdoutLogged = true
+          checkIfComplete()
+        })
+        stdoutLog.pipe(process.stdout)
       }
     } else {
       // No stdout, manually end the stream
@@ -302,10 +1884,18 @@ export async function executeCommand(
     }
 
     // Pipe stderr to file, and optionally to process.stderr
-    if (child.stderr) {
-      child.stderr.pipe(stderrFileStream)
+    if (stderr) {
+      stderr.file.pipe(stderrLimiter.stream).pipe(stderrFileStream)
       if (!hideOutputs) {
-        child.stderr.pipe(process.stderr)
+        const stderrLog = lineBuffered
+          ? stderr.log.pipe(createLinePrefixer(logPrefix ?? ''))
+          : stderr.log
+        stderrLogged = false
+        stderrLog.on('end', () => {
+          stderrLogged = true
+          checkIfComplete()
+        })
+        stderrLog.pipe(process.stderr)
       }
     } else {
       // No stderr, manually end the stream
@@ -317,26 +1907,158 @@ export async function executeCommand(
       if (!settled) {
         settled = true
         cleanupSignalHandlers()
+        timeout.clear()
+        resourceMonitor.stop()
+        stdinFileStream?.destroy()
+        resumeCommands?.()
+        if (grouped) {
+          core.endGroup()
+        }
         reject(error)
       }
     })
 
+    // Stop measuring as soon as the process exits. The timeout stays armed
+    // until the output ends, since processes the command left running may hold
+    // its output open; the timeout signal reaches them through the process
+    // group.
+    child.on('exit', () => {
+      resourceMonitor.stop()
+
+      // Processes left running by the command may hold its output open
+      if (!orphansSwept && child.pid !== undefined) {
+        void sweepOrphans(child.pid, killOrphansGraceSeconds).then(() => {
+          orphansSwept = true
+          checkIfComplete()
+        })
+      }
+    })
+
     // Handle process exit
-    child.on('close', (code: number | null) => {
-      childExitCode = code ?? 0
+    child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      durationMs = Number((process.hrtime.bigint() - startTime) / 1_000_000n)
+      childExitSignal = signal
+      childExitCode = code ?? getSignalExitCode(signal)
       checkIfComplete()
     })
   })
 }
 
+/**
+ * Get the commands to execute from the command, commands and args inputs.
+ *
+ * @param command The command input string.
+ * @param commands The commands input string, with one command per line.
+ * @param args The args input string. See parseArgsInput.
+ * @returns The commands to execute, in order.
+ */
+export function parseCommandList(
+  command: string,
+  commands: string,
+  args: string = ''
+): Command[] {
+  const given = [
+    ...(command ? ['command'] : []),
+    ...(commands ? ['commands'] : []),
+    ...(args.trim() ? ['args'] : [])
+  ]
+  if (given.length > 1) {
+    throw new Error(
+      `Only one of ${given.slice(0, -1).join(', ')} and ${given[given.length - 1]} can be set`
+    )
+  }
+
+  if (args.trim()) {
+    return [parseArgsInput(args)]
+  }
+
+  if (commands) {
+    return commands
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line !== '')
+  }
+
+  if (!command) {
+    throw new Error('Input required and not supplied: command')
+  }
+
+  return [command]
+}
+
+/**
+ * Parse the args input into the executable and its arguments.
+ * Accepts a JSON array of strings, or one argument per line. Lines are taken
+ * literally, without trimming or unquoting; only trailing empty lines are
+ * dropped, so a trailing empty argument needs the JSON form.
+ *
+ * @param input The args input string.
+ * @returns The executable and its arguments.
+ */
+export function parseArgsInput(input: string): string[] {
+  if (input.trim().startsWith('[')) {
+    let args: unknown
+    try {
+      args = JSON.parse(input)
+    } catch (error) {
+      throw new Error(`Invalid args: ${(error as Error).message}`, {
+        cause: error
+      })
+    }
+
+    if (
+      !Array.isArray(args) ||
+      !args.every((arg): arg is string => typeof arg === 'string')
+    ) {
+      throw new Error(
+        `Invalid args: "${input}". Expected a JSON array of strings`
+      )
+    }
+
+    return args
+  }
+
+  const args = input.split(/\r?\n/)
+  while (args.length > 0 && args[args.length - 1] === '') {
+    args.pop()
+  }
+
+  return args
+}
+
+/**
+ * Get the arguments that run a script with a shell.
+ *
+ * @param shell How the script is run.
+ * @param scriptPath The path of the script.
+ * @returns The shell's executable and arguments.
+ */
+function getShellArgs(shell: ShellTemplate, scriptPath: string): string[] {
+  return parseCommand(shell.template).map((arg) =>
+    arg.replaceAll('{0}', scriptPath)
+  )
+}
+
 /**
  * Parse a command string into an array of arguments.
- * Handles quoted strings and escapes.
+ * Handles quoted strings and escapes, and optionally expands environment
+ * variables outside single quotes. An expanded value is never split.
  *
  * @param command The command string to parse.
+ * @param mode Which quoting rules to follow. Defaults to "legacy".
+ * @param env The environment to expand variables from, or null (the default)
+ *   to keep "$" literally.
  * @returns An array of arguments.
  */
-export function parseCommand(command: string): string[] {
+export function parseCommand(
+  command: string,
+  mode: ParseMode = 'legacy',
+  env: NodeJS.ProcessEnv | null = null
+): string[] {
+  if (mode === 'posix') {
+    return splitPosixWords(command, env)
+  }
+
   const args: string[] = []
   let current = ''
   let inQuotes: string | null = null
@@ -356,6 +2078,16 @@ export function parseCommand(command: string): string[] {
       continue
     }
 
+    const expansion =
+      env && char === '$' && inQuotes !== "'"
+        ? expandVariable(command, i, env)
+        : null
+    if (expansion) {
+      current += expansion.value
+      i = expansion.end - 1
+      continue
+    }
+
     if (inQuotes) {
       if (char === inQuotes) {
         inQuotes = null
@@ -0,0 +1,139 @@
+/**
+ * Helpers for measuring the resources used by the command.
+ */
+
+import {
+  CLOCK_TICKS_PER_SECOND,
+  type ProcessTimes,
+  listDescendantPids,
+  readPeakRssKb,
+  readProcessTimes
+} from './proc.js'
+
+// How often the command's processes are sampled while it runs
+const SAMPLE_INTERVAL_MS = 100
+
+/**
+ * The resources used by a command and its descendants. Values are null when
+ * they cannot be measured, such as on runners without /proc.
+ */
+export interface ResourceUsage {
+  /** CPU time spent in user mode, in milliseconds. */
+  userCpuMs: number | null
+  /** CPU time spent in kernel mode, in milliseconds. */
+  systemCpuMs: number | null
+  /**
+   * The largest resident set size of the command or any of its descendants,
+   * in KiB.
+   */
+  maxRssKb: number | null
+}
+
+/**
+ * When a command ran and the resources it used.
+ */
+export interface CommandMetrics extends ResourceUsage {
+  /** When the command was started, as an ISO 8601 timestamp. */
+  startedAt: string
+  /** When the command and its output streams finished, as an ISO timestamp. */
+  finishedAt: string
+}
+
+/**
+ * A command being monitored.
+ */
+interface Monitored {
+  /** Whether another command ran at the same time. */
+  overlapped: boolean
+}
+
+// The commands being monitored, to tell whether they ran at the same time
+const running = new Set<Monitored>()
+
+/**
+ * Convert clock ticks to milliseconds.
+ *
+ * @param ticks The number of clock ticks.
+ * @returns The number of milliseconds.
+ */
+function ticksToMs(ticks: number): number {
+  return Math.round((ticks * 1000) / CLOCK_TICKS_PER_SECOND)
+}
+
+/**
+ * Start measuring the resources used by a command that has just been spawned.
+ *
+ * The CPU time of a command includes the descendants it waited for, like the
+ * rusage of a child process. It is read from the action's own accounting of
+ * the children it waited for, which is exact when no other command runs at the
+ * same time. Otherwise, it is the last value sampled from the command's /proc
+ * entry while it ran, which misses the time used after the last sample. The
+ * peak memory use is sampled from the command and its descendants while they
+ * run; it cannot be read once they have exited, so it misses the memory taken
+ * after the last sample, and is null when the command exits before the first.
+ *
+ * @param pid The process ID of the command, if it was spawned.
+ * @returns A function that stops measuring once the command has exited and
+ *   returns the resources it used.
+ */
+export function startResourceMonitor(pid: number | undefined): {
+  stop: () => ResourceUsage
+} {
+  const monitored: Monitored = { overlapped: running.size > 0 }
+  for (const other of running) {
+    other.overlapped = true
+  }
+  running.add(monitored)
+
+  const before = readProcessTimes('self')
+  let sampledTimes: ProcessTimes | null = null
+  let maxRssKb: number | null = null
+
+  const sample = () => {
+    if (pid === undefined) {
+      return
+    }
+    sampledTimes = readProcessTimes(pid) ?? sampledTimes
+    for (const processId of [pid, ...listDescendantPids(pid)]) {
+      const rssKb = readPeakRssKb(processId)
+      if (rssKb !== null) {
+        maxRssKb = Math.max(maxRssKb ?? 0, rssKb)
+      }
+    }
+  }
+
+  sample()
+  const interval = setInterval(sample, SAMPLE_INTERVAL_MS)
+  // Sampling must not keep the action running
+  interval.unref()
+
+  let usage: ResourceUsage | null = null
+
+  return {
+    stop: () => {
+      if (usage) {
+        return usage
+      }
+      clearInterval(interval)
+      running.delete(monitored)
+
+      const after = readProcessTimes('self')
+      const times: ProcessTimes | null =
+        !monitored.overlapped && before && after
+          ? {
+              user: 0,
+              system: 0,
+              childrenUser: after.childrenUser - before.childrenUser,
+              childrenSystem: after.childrenSystem - before.childrenSystem
+            }
+          : sampledTimes
+
+      usage = {
+        userCpuMs: times && ticksToMs(times.user + times.childrenUser),
+        systemCpuMs: times && ticksToMs(times.system + times.childrenSystem),
+        maxRssKb
+      }
+      return usage
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Helpers for limiting how much of the command's output is written to disk.
+ */
+
+import { Transform } from 'stream'
+
+/**
+ * Which part of the output is kept once it exceeds the limit.
+ * - head: the first bytes
+ * - tail: the last bytes
+ * - head_and_tail: the first half and the last half of the limit
+ */
+export type TruncateStrategy = 'head' | 'tail' | 'head_and_tail'
+
+/**
+ * Parse the truncate strategy input.
+ *
+ * @param input The truncate strategy input string.
+ * @returns The truncate strategy. Defaults to "head".
+ */
+export function parseTruncateStrategy(input: string): TruncateStrategy {
+  const strategy = input.trim().toLowerCase() || 'head'
+
+  if (
+    strategy !== 'head' &&
+    strategy !== 'tail' &&
+    strategy !== 'head_and_tail'
+  ) {
+    throw new Error(
+      `Invalid truncate_strategy: "${input}". Expected "head", "tail" or "head_and_tail"`
+    )
+  }
+
+  return strategy
+}
+
+/**
+ * A bounded buffer that keeps only the last bytes written to it.
+ *
+ * @param capacity The maximum number of bytes to keep.
+ * @returns Functions to append bytes and to read the retained bytes.
+ */
+function createTailBuffer(capacity: number): {
+  push: (chunk: Buffer) => void
+  contents: () => Buffer
+} {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  return {
+    push: (chunk: Buffer) => {
+      if (capacity === 0) return
+      chunks.push(chunk)
+      size += chunk.length
+      // Drop whole chunks that fall entirely outside the retained window
+      while (chunks.length > 1 && size - chunks[0].length >= capacity) {
+        size -= chunks.shift()!.length
+      }
+    },
+    contents: () => {
+      const buffer = Buffer.concat(chunks, size)
+      return buffer.subarray(Math.max(0, buffer.length - capacity))
+    }
+  }
+}
+
+/**
+ * Create a stream that passes output through while enforcing a size limit.
+ * Input is always consumed in full, so the command is never blocked on a full
+ * pipe, but at most maxBytes are passed on. With the tail strategy, and for
+ * the tail half of head_and_tail, bytes are held in memory and passed on when
+ * the input ends.
+ *
+ * @param maxBytes The maximum number of bytes to pass on. 0 means unlimited.
+ * @param strategy Which part of the output to keep.
+ * @returns The stream, and functions reporting the total number of input
+ *   bytes and whether any were dropped.
+ */
+export function createOutputLimiter(
+  maxBytes: number,
+  strategy: TruncateStrategy
+): {
+  stream: Transform
+  totalBytes: () => number
+  truncated: () => boolean
+} {
+  const headLimit =
+    maxBytes === 0
+      ? Infinity
+      : strategy === 'head'
+        ? maxBytes
+        : strategy === 'tail'
+          ? 0
+          : Math.ceil(maxBytes / 2)
+  const tail = createTailBuffer(maxBytes - Math.min(headLimit, maxBytes))
+  let totalBytes = 0
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const headRemaining = Math.max(0, headLimit - totalBytes)
+      totalBytes += chunk.length
+
+      if (chunk.length <= headRemaining) {
+        callback(null, chunk)
+        return
+      }
+
+      tail.push(chunk.subarray(headRemaining))
+      if (headRemaining > 0) {
+        this.push(chunk.subarray(0, headRemaining))
+      }
+      callback()
+    },
+    flush(callback) {
+      const retained = tail.contents()
+      if (retained.length > 0) {
+        this.push(retained)
+      }
+      callback()
+    }
+  })
+
+  return {
+    stream,
+    totalBytes: () => totalBytes,
+    truncated: () => maxBytes > 0 && totalBytes > maxBytes
+  }
+}
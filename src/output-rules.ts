@@ -0,0 +1,140 @@
+/**
+ * Helpers for deciding success from the content of the command's output, in
+ * addition to its exit code.
+ */
+
+import type { OutputStreamName } from './combined-output.js'
+import { formatCodeSpan } from './summary.js'
+
+/**
+ * Rules the command's output must follow to be treated as success.
+ */
+export interface OutputRules {
+  /** When true, any output on stderr is a failure. */
+  failOnStderr: boolean
+  /** A line of stdout or stderr matching any of these is a failure. */
+  failIfMatches: RegExp[]
+  /** Each of these must match a line of stdout or stderr. */
+  requireMatches: RegExp[]
+}
+
+/**
+ * Why the command's output is treated as failure: the name of the input
+ * holding the rule it broke, and a description.
+ */
+export interface OutputFailure {
+  reason: 'fail_on_stderr' | 'fail_if_output_matches' | 'require_output_matches'
+  message: string
+}
+
+// Matched lines are quoted in failure messages, up to this length
+const MAX_QUOTED_LENGTH = 200
+
+/**
+ * Parse an input holding one regular expression per line.
+ *
+ * @param input The input string.
+ * @param name The name of the input, used in error messages.
+ * @returns The regular expressions.
+ */
+export function parseOutputPatterns(input: string, name: string): RegExp[] {
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((source) => source !== '')
+    .map((source) => {
+      try {
+        return new RegExp(source)
+      } catch (error) {
+        throw new Error(
+          `Invalid ${name} pattern: "${source}". ${(error as Error).message}`,
+          { cause: error }
+        )
+      }
+    })
+}
+
+/**
+ * Check whether there are any output rules.
+ *
+ * @param rules The output rules.
+ * @returns True if any rule is enabled.
+ */
+export function hasOutputRules(rules: OutputRules): boolean {
+  return (
+    rules.failOnStderr ||
+    rules.failIfMatches.length > 0 ||
+    rules.requireMatches.length > 0
+  )
+}
+
+/**
+ * Create a checker that applies the output rules to the command's output,
+ * line by line.
+ *
+ * @param rules The output rules.
+ * @param quoteLines When true, the failure message quotes the line matching a
+ *   failure pattern, as a Markdown code span. It must be false when the output
+ *   is hidden, since the message is written to the log and the job summary.
+ * @returns Functions to check each line, and to get the first rule broken by
+ *   the output once it has ended.
+ */
+export function createOutputChecker(
+  rules: OutputRules,
+  quoteLines = true
+): {
+  check: (stream: OutputStreamName, line: string) => void
+  failure: () => OutputFailure | null
+} {
+  let wroteStderr = false
+  let failMatch: { pattern: RegExp; line: string } | null = null
+  const missing = new Set(rules.requireMatches)
+
+  return {
+    check: (stream, line) => {
+      if (stream === 'stderr') {
+        wroteStderr = true
+      }
+      if (failMatch === null) {
+        const pattern = rules.failIfMatches.find((p) => p.test(line))
+        if (pattern) {
+          failMatch = { pattern, line }
+        }
+      }
+      for (const pattern of missing) {
+        if (pattern.test(line)) {
+          missing.delete(pattern)
+        }
+      }
+    },
+    failure: () => {
+      if (rules.failOnStderr && wroteStderr) {
+        return {
+          reason: 'fail_on_stderr',
+          message: 'Command wrote to stderr'
+        }
+      }
+      if (failMatch !== null) {
+        const { pattern, line } = failMatch
+        const quoted =
+          line.length > MAX_QUOTED_LENGTH
+            ? `${line.slice(0, MAX_QUOTED_LENGTH)}...`
+            : line
+        return {
+          reason: 'fail_if_output_matches',
+          message: quoteLines
+            ? `Output matched "${pattern.source}": ${formatCodeSpan(quoted)}`
+            : `Output matched "${pattern.source}"`
+        }
+      }
+      const [pattern] = missing
+      if (pattern) {
+        return {
+          reason: 'require_output_matches',
+          message: `Output did not match "${pattern.source}"`
+        }
+      }
+      return null
+    }
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Helpers for matching problems (errors and warnings with file locations) in
+ * the command's output, using matchers in the GitHub problem matcher format.
+ */
+
+import { dirname, isAbsolute, relative, resolve } from 'path'
+
+/**
+ * The severity of a problem.
+ */
+export type ProblemSeverity = 'error' | 'warning'
+
+/**
+ * A regular expression matching one line of a problem, and the groups that
+ * hold each of the problem's fields.
+ */
+export interface ProblemPattern {
+  regexp: RegExp
+  file?: number
+  fromPath?: number
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  severity?: number
+  code?: number
+  message?: number
+  /** When true, the pattern matches repeatedly, producing a problem each time. */
+  loop: boolean
+}
+
+/**
+ * A problem matcher: patterns matching consecutive lines of a problem.
+ */
+export interface ProblemMatcher {
+  owner: string
+  /** The severity of problems whose patterns do not capture one. */
+  severity: ProblemSeverity
+  patterns: ProblemPattern[]
+}
+
+/**
+ * A problem found in the output.
+ */
+export interface Problem {
+  owner: string
+  severity: ProblemSeverity
+  message: string
+  /** The file, relative to the workspace when it is inside the workspace. */
+  file?: string
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  code?: string
+}
+
+const GROUP_FIELDS = [
+  'file',
+  'fromPath',
+  'line',
+  'column',
+  'endLine',
+  'endColumn',
+  'severity',
+  'code',
+  'message'
+] as const
+
+type GroupField = (typeof GROUP_FIELDS)[number]
+
+/**
+ * Parse a problem matcher severity.
+ *
+ * @param value The severity.
+ * @returns The severity, or undefined when it is not recognized.
+ */
+function parseSeverity(value: unknown): ProblemSeverity | undefined {
+  const severity = typeof value === 'string' ? value.toLowerCase() : ''
+  return severity === 'error' || severity === 'warning' ? severity : undefined
+}
+
+/**
+ * Parse a single pattern of a problem matcher.
+ *
+ * @param value The pattern, as parsed from JSON.
+ * @param owner The owner of the matcher, used in error messages.
+ * @returns The pattern.
+ */
+function parsePattern(value: unknown, owner: string): ProblemPattern {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(
+      `Invalid problem_matchers: the patterns of "${owner}" must be objects`
+    )
+  }
+  const fields = value as Record<string, unknown>
+
+  if (typeof fields.regexp !== 'string') {
+    throw new Error(
+      `Invalid problem_matchers: every pattern of "${owner}" must have a regexp`
+    )
+  }
+  let regexp: RegExp
+  try {
+    regexp = new RegExp(fields.regexp)
+  } catch (error) {
+    throw new Error(
+      `Invalid problem_matchers: invalid regexp in "${owner}". ${(error as Error).message}`,
+      { cause: error }
+    )
+  }
+
+  const pattern: ProblemPattern = { regexp, loop: fields.loop === true }
+  for (const field of GROUP_FIELDS) {
+    const group = fields[field]
+    if (group === undefined) {
+      continue
+    }
+    if (typeof group !== 'number' || !Number.isInteger(group) || group < 0) {
+      throw new Error(
+        `Invalid problem_matchers: "${field}" of "${owner}" must be a group number`
+      )
+    }
+    pattern[field] = group
+  }
+
+  return pattern
+}
+
+/**
+ * Parse problem matchers in the GitHub problem matcher format, as used with
+ * the add-matcher workflow command.
+ *
+ * @param json The problem matcher JSON.
+ * @returns The problem matchers.
+ */
+export function parseProblemMatchers(json: string): ProblemMatcher[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Invalid problem_matchers: ${(error as Error).message}`, {
+      cause: error
+    })
+  }
+
+  const matchers = (parsed as { problemMatcher?: unknown } | null)
+    ?.problemMatcher
+  if (!Array.isArray(matchers)) {
+    throw new Error(
+      'Invalid problem_matchers: expected an object with a "problemMatcher" array'
+    )
+  }
+
+  return matchers.map((matcher: Record<string, unknown>) => {
+    const owner = matcher?.owner
+    if (typeof owner !== 'string' || owner === '') {
+      throw new Error('Invalid problem_matchers: every matcher needs an owner')
+    }
+    if (!Array.isArray(matcher.pattern) || matcher.pattern.length === 0) {
+      throw new Error(
+        `Invalid problem_matchers: "${owner}" must have at least one pattern`
+      )
+    }
+
+    const patterns = matcher.pattern.map((pattern: unknown) =>
+      parsePattern(pattern, owner)
+    )
+    if (
+      patterns.some((pattern, i) => pattern.loop && i < patterns.length - 1)
+    ) {
+      throw new Error(
+        `Invalid problem_matchers: only the last pattern of "${owner}" can loop`
+      )
+    }
+    if (patterns.length === 1 && patterns[0].loop) {
+      throw new Error(
+        `Invalid problem_matchers: the loop pattern of "${owner}" must follow another pattern`
+      )
+    }
+    if (patterns.every((pattern) => pattern.message === undefined)) {
+      throw new Error(
+        `Invalid problem_matchers: "${owner}" must capture a message`
+      )
+    }
+
+    return {
+      owner,
+      severity: parseSeverity(matcher.severity) ?? 'error',
+      patterns
+    }
+  })
+}
+
+/**
+ * Create a function that matches problems, line by line.
+ * Problems may span several consecutive lines, so a separate function is
+ * needed for each stream of output.
+ *
+ * @param matchers The problem matchers.
+ * @param paths Where files in problems are resolved.
+ * @param paths.cwd The directory that relative files are resolved against.
+ * @param paths.workspace The directory that files are reported relative to.
+ * @returns A function returning the problems completed by each line.
+ */
+export function createProblemMatcher(
+  matchers: ProblemMatcher[],
+  paths: { cwd: string; workspace: string }
+): (line: string) => Problem[] {
+  // For each matcher, the pattern matching the next line, and the fields
+  // captured by the previous lines of a multi-line problem
+  const states = matchers.map(() => ({
+    index: 0,
+    fields: {} as Partial<Record<GroupField, string>>
+  }))
+
+  const capture = (
+    pattern: ProblemPattern,
+    match: RegExpExecArray,
+    fields: Partial<Record<GroupField, string>>
+  ) => {
+    const captured = { ...fields }
+    for (const field of GROUP_FIELDS) {
+      const group = pattern[field]
+      if (group !== undefined && match[group] !== undefined) {
+        captured[field] = match[group]
+      }
+    }
+    return captured
+  }
+
+  const toProblem = (
+    matcher: ProblemMatcher,
+    fields: Partial<Record<GroupField, string>>
+  ): Problem | null => {
+    if (!fields.message) {
+      return null
+    }
+
+    const problem: Problem = {
+      owner: matcher.owner,
+      severity: parseSeverity(fields.severity) ?? matcher.severity,
+      message: fields.message
+    }
+    if (fields.file) {
+      const base = fields.fromPath
+        ? dirname(resolve(paths.cwd, fields.fromPath))
+        : paths.cwd
+      const file = resolve(base, fields.file)
+      const fromWorkspace = relative(paths.workspace, file)
+      problem.file =
+        fromWorkspace.startsWith('..') || isAbsolute(fromWorkspace)
+          ? file
+          : fromWorkspace
+    }
+    for (const field of ['line', 'column', 'endLine', 'endColumn'] as const) {
+      const number = parseInt(fields[field] ?? '', 10)
+      if (number > 0) {
+        problem[field] = number
+      }
+    }
+    if (fields.code) {
+      problem.code = fields.code
+    }
+
+    return problem
+  }
+
+  const matchLine = (
+    matcher: ProblemMatcher,
+    state: (typeof states)[number],
+    line: string
+  ): Problem | null => {
+    const { patterns } = matcher
+
+    if (state.index > 0) {
+      const pattern = patterns[state.index]
+      const match = pattern.regexp.exec(line)
+      if (match) {
+        const fields = capture(pattern, match, state.fields)
+        if (state.index < patterns.length - 1) {
+          state.index++
+          state.fields = fields
+          return null
+        }
+        // A loop pattern keeps matching, on top of the earlier lines' fields
+        if (!pattern.loop) {
+          state.index = 0
+          state.fields = {}
+        }
+        return toProblem(matcher, fields)
+      }
+      // The problem ended early, the line may start a new one
+      state.index = 0
+      state.fields = {}
+    }
+
+    const match = patterns[0].regexp.exec(line)
+    if (!match) {
+      return null
+    }
+    const fields = capture(patterns[0], match, {})
+    if (patterns.length === 1) {
+      return toProblem(matcher, fields)
+    }
+    state.index = 1
+    state.fields = fields
+    return null
+  }
+
+  return (line: string) =>
+    matchers
+      .map((matcher, i) =>
+        matchLine(matcher, states[i], line.replace(/\r$/, ''))
+      )
+      .filter((problem) => problem !== null)
+}
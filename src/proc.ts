@@ -0,0 +1,144 @@
+/**
+ * Helpers for reading process information from /proc. They return null or
+ * nothing where /proc is not available (e.g., on macOS and Windows), or once
+ * the process has exited.
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+
+/**
+ * The number of clock ticks per second that /proc reports CPU times in. It is
+ * 100 on every Linux architecture the runners use.
+ */
+export const CLOCK_TICKS_PER_SECOND = 100
+
+/**
+ * The CPU time used by a process, in clock ticks.
+ */
+export interface ProcessTimes {
+  /** Time spent in user mode by the process. */
+  user: number
+  /** Time spent in kernel mode by the process. */
+  system: number
+  /** Time spent in user mode by the children the process waited for. */
+  childrenUser: number
+  /** Time spent in kernel mode by the children the process waited for. */
+  childrenSystem: number
+}
+
+/**
+ * Read a file from /proc.
+ *
+ * @param path The path of the file.
+ * @returns The contents, or null if the file cannot be read.
+ */
+function readProcFile(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the CPU times of a process from /proc/<pid>/stat.
+ *
+ * @param pid The process ID, or "self" for the action's own process.
+ * @returns The CPU times, or null if they cannot be read.
+ */
+export function readProcessTimes(pid: number | 'self'): ProcessTimes | null {
+  const stat = readProcFile(`/proc/${pid}/stat`)
+  if (stat === null) {
+    return null
+  }
+
+  // The command name in parentheses may contain spaces, so fields are counted
+  // from its closing parenthesis, starting with the state (field 3)
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+  const [user, system, childrenUser, childrenSystem] = fields
+    .slice(11, 15)
+    .map(Number)
+  if (![user, system, childrenUser, childrenSystem].every(Number.isFinite)) {
+    return null
+  }
+
+  return { user, system, childrenUser, childrenSystem }
+}
+
+/**
+ * Read the peak resident set size of a process from /proc/<pid>/status.
+ *
+ * @param pid The process ID.
+ * @returns The peak resident set size in KiB, or null if it cannot be read.
+ */
+export function readPeakRssKb(pid: number): number | null {
+  const status = readProcFile(`/proc/${pid}/status`)
+  const match = status && /^VmHWM:\s*(\d+) kB$/m.exec(status)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * List the descendants of a process: its children, their children, and so on.
+ *
+ * @param pid The process ID.
+ * @returns The process IDs of the descendants, parents before their children.
+ */
+export function listDescendantPids(pid: number): number[] {
+  const descendants: number[] = []
+  const queue = [pid]
+
+  while (queue.length > 0) {
+    const parent = queue.shift()!
+    let tasks: string[]
+    try {
+      tasks = readdirSync(`/proc/${parent}/task`)
+    } catch {
+      continue
+    }
+
+    // Children are listed per thread that started them
+    for (const task of tasks) {
+      const children = readProcFile(`/proc/${parent}/task/${task}/children`)
+      for (const child of children?.split(' ') ?? []) {
+        if (child !== '') {
+          descendants.push(Number(child))
+          queue.push(Number(child))
+        }
+      }
+    }
+  }
+
+  return descendants
+}
+
+/**
+ * List the live processes in a process group, skipping zombies that have
+ * exited but not been waited for yet.
+ *
+ * @param pgid The process group ID.
+ * @returns The process IDs, or null if /proc is not available.
+ */
+export function listProcessGroup(pgid: number): number[] | null {
+  let entries: string[]
+  try {
+    entries = readdirSync('/proc')
+  } catch {
+    return null
+  }
+
+  const pids: number[] = []
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue
+    }
+
+    // The state is field 3 and the process group is field 5
+    const stat = readProcFile(`/proc/${entry}/stat`)
+    const fields = stat?.slice(stat.lastIndexOf(')') + 2).split(' ')
+    if (fields && Number(fields[2]) === pgid && fields[0] !== 'Z') {
+      pids.push(Number(entry))
+    }
+  }
+
+  return pids
+}
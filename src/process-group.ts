@@ -0,0 +1,112 @@
+/**
+ * Helpers for signalling the command together with every process it started.
+ * The command runs in its own process group, so that processes started by
+ * scripts and build tools can be signalled with it. Process groups are not
+ * used on Windows, where only the command itself is signalled.
+ */
+
+import type { ChildProcess } from 'child_process'
+import { setTimeout as sleep } from 'timers/promises'
+import * as core from './github-actions.js'
+import { listProcessGroup } from './proc.js'
+
+// How often a process group is checked for processes that are still running
+const POLL_INTERVAL_MS = 50
+
+/**
+ * Whether commands are spawned in their own process group.
+ */
+export const USE_PROCESS_GROUPS = process.platform !== 'win32'
+
+/**
+ * Send a signal to every process in a process group.
+ *
+ * @param pgid The process group ID.
+ * @param signal The signal to send, or 0 to only check that the group exists.
+ * @returns True if the signal was sent, false if the group no longer exists.
+ */
+function killProcessGroup(pgid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(-pgid, signal)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Send a signal to the command and the processes it started, which share its
+ * process group. Falls back to signalling only the command when its group no
+ * longer exists.
+ *
+ * @param child The command's process.
+ * @param signal The signal to send.
+ */
+export function signalCommand(
+  child: ChildProcess,
+  signal: NodeJS.Signals
+): void {
+  if (
+    !USE_PROCESS_GROUPS ||
+    child.pid === undefined ||
+    !killProcessGroup(child.pid, signal)
+  ) {
+    child.kill(signal)
+  }
+}
+
+/**
+ * Check whether any process in a process group is still running.
+ *
+ * @param pgid The process group ID.
+ * @returns True if a process in the group is running.
+ */
+function isProcessGroupRunning(pgid: number): boolean {
+  const pids = listProcessGroup(pgid)
+  if (pids !== null) {
+    return pids.length > 0
+  }
+
+  // Without /proc, exited processes that were not waited for still count
+  return killProcessGroup(pgid, 0)
+}
+
+/**
+ * Terminate the processes left in the command's process group after the
+ * command exited. They are sent SIGTERM, and SIGKILL if any are still running
+ * after the grace period.
+ *
+ * @param pgid The process group ID, which is the command's process ID.
+ * @param graceSeconds Seconds between SIGTERM and SIGKILL.
+ * @returns The process IDs of the processes that were left, when they can be
+ *   listed.
+ */
+export async function sweepOrphans(
+  pgid: number,
+  graceSeconds: number
+): Promise<number[]> {
+  if (!isProcessGroupRunning(pgid)) {
+    return []
+  }
+
+  const orphans = listProcessGroup(pgid) ?? []
+  core.debug(
+    `Sending SIGTERM to processes left by the command: ${orphans.join(', ') || 'unknown'}`
+  )
+  killProcessGroup(pgid, 'SIGTERM')
+
+  const deadline = Date.now() + graceSeconds * 1000
+  while (isProcessGroupRunning(pgid) && Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS)
+  }
+
+  if (isProcessGroupRunning(pgid)) {
+    core.debug(
+      `Processes still running ${graceSeconds}s after SIGTERM, sending SIGKILL`
+    )
+    killProcessGroup(pgid, 'SIGKILL')
+  }
+
+  core.debug(`Reaped orphaned processes: ${orphans.join(', ') || 'unknown'}`)
+  return orphans
+}
@@ -0,0 +1,216 @@
+/**
+ * Helpers for redacting secrets from the command's output.
+ */
+
+import { StringDecoder } from 'string_decoder'
+import { Transform } from 'stream'
+
+/**
+ * The text that replaces every redacted match.
+ */
+export const REDACTED = '***'
+
+// A partial line is held back while waiting for its end, so that patterns can
+// match it in full, but only up to this size
+const MAX_PENDING_LENGTH = 64 * 1024
+
+/**
+ * What to redact from the output.
+ */
+export interface RedactionRules {
+  /** Values redacted wherever they appear. */
+  literals: string[]
+  /** Patterns redacted wherever they match within a line. */
+  patterns: RegExp[]
+}
+
+/**
+ * Parse the redact input.
+ * Each non-empty line is a literal value, or a regular expression when
+ * prefixed with "regex:".
+ *
+ * @param input The redact input string.
+ * @returns The redaction rules.
+ */
+export function parseRedactInput(input: string): RedactionRules {
+  const rules: RedactionRules = { literals: [], patterns: [] }
+
+  for (const line of input.split(/\r?\n/)) {
+    const value = line.trim()
+    if (value === '') {
+      continue
+    }
+
+    if (!value.startsWith('regex:')) {
+      rules.literals.push(value)
+      continue
+    }
+
+    const source = value.slice('regex:'.length)
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(source, 'g')
+    } catch (error) {
+      throw new Error(
+        `Invalid redact pattern: "${source}". ${(error as Error).message}`,
+        { cause: error }
+      )
+    }
+
+    // A pattern matching nothing would never let the redactor make progress
+    if (pattern.test('')) {
+      throw new Error(
+        `Invalid redact pattern: "${source}". It matches an empty string`
+      )
+    }
+
+    rules.patterns.push(pattern)
+  }
+
+  return rules
+}
+
+/**
+ * Check whether there is anything to redact.
+ *
+ * @param rules The redaction rules.
+ * @returns True if there is at least one literal or pattern.
+ */
+export function hasRedactionRules(rules: RedactionRules): boolean {
+  return rules.literals.length > 0 || rules.patterns.length > 0
+}
+
+/**
+ * Find the ranges of text to redact, merged so that they do not overlap.
+ *
+ * @param text The text to search.
+ * @param rules The redaction rules.
+ * @returns Sorted [start, end) ranges.
+ */
+function findMatches(
+  text: string,
+  rules: RedactionRules
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+
+  for (const literal of rules.literals) {
+    for (
+      let index = text.indexOf(literal);
+      index !== -1;
+      index = text.indexOf(literal, index + 1)
+    ) {
+      ranges.push([index, index + literal.length])
+    }
+  }
+
+  for (const pattern of rules.patterns) {
+    for (const match of text.matchAll(pattern)) {
+      ranges.push([match.index, match.index + match[0].length])
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const merged: Array<[number, number]> = []
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Replace the given ranges of text with the redaction marker.
+ *
+ * @param text The text to redact.
+ * @param ranges Sorted, non-overlapping [start, end) ranges within the text.
+ * @returns The redacted text.
+ */
+function replaceRanges(text: string, ranges: Array<[number, number]>): string {
+  let result = ''
+  let position = 0
+
+  for (const [start, end] of ranges) {
+    result += text.slice(position, start) + REDACTED
+    position = end
+  }
+
+  return result + text.slice(position)
+}
+
+/**
+ * Redact secrets from a complete piece of text.
+ *
+ * @param text The text to redact.
+ * @param rules The redaction rules.
+ * @returns The redacted text.
+ */
+export function redact(text: string, rules: RedactionRules): string {
+  return replaceRanges(text, findMatches(text, rules))
+}
+
+/**
+ * Create a stream that redacts secrets from the text passing through it.
+ * Text is held back until a secret cannot be split across the point where it
+ * is passed on: literals are matched across chunk boundaries, and patterns are
+ * matched against complete lines (or against up to 64 KiB of a line that has
+ * not ended yet).
+ *
+ * @param rules The redaction rules.
+ * @returns The redacting stream.
+ */
+export function createRedactor(rules: RedactionRules): Transform {
+  const decoder = new StringDecoder('utf8')
+  const longestLiteral = Math.max(0, ...rules.literals.map((l) => l.length))
+  let pending = ''
+
+  const emit = (stream: Transform, final: boolean) => {
+    const matches = findMatches(pending, rules)
+
+    let cut = pending.length
+    if (!final) {
+      // An incomplete literal starts within the last (longest - 1) characters
+      cut = Math.max(0, pending.length - Math.max(0, longestLiteral - 1))
+      // Patterns only see complete lines, unless the line is too long
+      if (rules.patterns.length > 0 && pending.length <= MAX_PENDING_LENGTH) {
+        cut = Math.min(cut, pending.lastIndexOf('\n') + 1)
+      }
+      // Never split a match
+      for (const [start, end] of matches) {
+        if (start < cut && end > cut) {
+          cut = start
+        }
+      }
+    }
+
+    if (cut === 0) {
+      return
+    }
+
+    stream.push(
+      replaceRanges(
+        pending.slice(0, cut),
+        matches.filter(([, end]) => end <= cut)
+      )
+    )
+    pending = pending.slice(cut)
+  }
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending += decoder.write(chunk)
+      emit(this, false)
+      callback()
+    },
+    flush(callback) {
+      pending += decoder.end()
+      emit(this, true)
+      callback()
+    }
+  })
+}
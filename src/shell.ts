@@ -0,0 +1,99 @@
+/**
+ * Helpers for running the command as a script with a shell, for commands that
+ * need shell features such as pipes and redirects.
+ */
+
+import { randomBytes } from 'crypto'
+import { writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+/**
+ * How a script is run with a shell.
+ */
+export interface ShellTemplate {
+  /** The shell's command line, where "{0}" stands for the script path. */
+  template: string
+  /** The extension of the script file. */
+  extension: string
+  /** Lines added before and after the command in the script. */
+  prologue: string
+  epilogue: string
+}
+
+// The shells that can be chosen by name, run like the same shells in run steps
+const BUILTIN_SHELLS: Record<string, ShellTemplate> = {
+  bash: {
+    template: 'bash --noprofile --norc -eo pipefail {0}',
+    extension: '.sh',
+    prologue: '',
+    epilogue: ''
+  },
+  sh: {
+    template: 'sh -e {0}',
+    extension: '.sh',
+    prologue: '',
+    epilogue: ''
+  },
+  pwsh: {
+    template: `pwsh -command ". '{0}'"`,
+    extension: '.ps1',
+    prologue: "$ErrorActionPreference = 'stop'\n",
+    epilogue:
+      '\nif ((Test-Path -LiteralPath variable:\\LASTEXITCODE)) { exit $LASTEXITCODE }\n'
+  }
+}
+
+/**
+ * Parse the shell input.
+ * Accepts "none" (the default), the name of a built-in shell ("bash", "sh" or
+ * "pwsh"), or a custom command line containing "{0}" where the script path
+ * goes (e.g., "python {0}").
+ *
+ * @param input The shell input string.
+ * @returns How to run the script, or null to run the command without a shell.
+ */
+export function parseShell(input: string): ShellTemplate | null {
+  const shell = input.trim()
+
+  if (shell === '' || shell.toLowerCase() === 'none') {
+    return null
+  }
+
+  const builtin = BUILTIN_SHELLS[shell.toLowerCase()]
+  if (builtin) {
+    return builtin
+  }
+
+  if (!shell.includes('{0}')) {
+    throw new Error(
+      `Invalid shell: "${input}". Expected "none", "bash", "sh", "pwsh" or a command line containing "{0}"`
+    )
+  }
+
+  return { template: shell, extension: '', prologue: '', epilogue: '' }
+}
+
+/**
+ * Write the command to a script file for the shell.
+ * The file is created with exclusive access in RUNNER_TEMP.
+ *
+ * @param command The command, which may span several lines.
+ * @param shell How the script is run.
+ * @returns The path of the script file.
+ */
+export function writeShellScript(
+  command: string,
+  shell: ShellTemplate
+): string {
+  const tempDir = process.env.RUNNER_TEMP || tmpdir()
+  const randomSuffix = randomBytes(16).toString('base64url')
+  const scriptPath = join(tempDir, `exec-${randomSuffix}${shell.extension}`)
+
+  writeFileSync(scriptPath, `${shell.prologue}${command}\n${shell.epilogue}`, {
+    flag: 'wx',
+    mode: 0o600
+  })
+
+  return scriptPath
+}
@@ -0,0 +1,158 @@
+/**
+ * Helpers for rendering the command's result in the job summary.
+ */
+
+import { open } from 'fs/promises'
+
+/**
+ * When the job summary is written.
+ * - off: never
+ * - always: after every run
+ * - on_failure: only when the command fails
+ */
+export type SummaryMode = 'off' | 'always' | 'on_failure'
+
+// Only the end of an output file is read to find its last lines
+const MAX_TAIL_BYTES = 64 * 1024
+
+/**
+ * Parse the summary input.
+ *
+ * @param input The summary input string.
+ * @returns The summary mode. Defaults to "off".
+ */
+export function parseSummaryMode(input: string): SummaryMode {
+  const mode = input.trim().toLowerCase() || 'off'
+
+  if (mode !== 'off' && mode !== 'always' && mode !== 'on_failure') {
+    throw new Error(
+      `Invalid summary: "${input}". Expected "off", "always" or "on_failure"`
+    )
+  }
+
+  return mode
+}
+
+/**
+ * Read the last lines of an output file.
+ * At most the last 64 KiB of the file are read, so fewer lines are returned
+ * when they are very long.
+ *
+ * @param path The output file.
+ * @param lines The maximum number of lines to return.
+ * @returns The last lines, without a trailing newline.
+ */
+export async function readTailLines(
+  path: string,
+  lines: number
+): Promise<string> {
+  if (lines === 0) {
+    return ''
+  }
+
+  const file = await open(path, 'r')
+
+  try {
+    const { size } = await file.stat()
+    const length = Math.min(size, MAX_TAIL_BYTES)
+    const buffer = Buffer.alloc(length)
+    await file.read(buffer, 0, length, size - length)
+
+    const text = buffer.toString('utf8').replace(/\r?\n$/, '')
+    const all = text.split('\n')
+    // A line cut off by the 64 KiB window is incomplete, so it is dropped
+    const complete = length < size ? all.slice(1) : all
+    return complete.slice(-lines).join('\n')
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * The result of the command, as shown in the job summary.
+ */
+export interface CommandSummary {
+  /** The command's arguments, including the executable. */
+  argv: string[]
+  exitCode: number
+  exitSignal: string | null
+  timedOut: boolean
+  durationMs: number
+  attempts: number
+  /** Why the command failed, or null when it succeeded. */
+  failure: string | null
+  /** The last lines of stdout and stderr, or null when output is hidden. */
+  output: { stdout: string; stderr: string } | null
+}
+
+/**
+ * Choose the backticks delimiting a Markdown code span or fence, so that
+ * backticks within the text cannot close it.
+ *
+ * @param text The text.
+ * @param minimum The minimum number of backticks.
+ * @returns The backticks to use as delimiter.
+ */
+function backticksFor(text: string, minimum: number): string {
+  const longest = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  )
+  return '`'.repeat(Math.max(minimum, longest + 1))
+}
+
+/**
+ * Format text as a Markdown code span, so that it is shown as it is.
+ *
+ * @param text The text, on a single line.
+ * @returns The code span.
+ */
+export function formatCodeSpan(text: string): string {
+  const delimiter = backticksFor(text, 1)
+  return `${delimiter} ${text} ${delimiter}`
+}
+
+/**
+ * Format the command's result as a Markdown section for the job summary.
+ *
+ * @param summary The result of the command.
+ * @returns The Markdown section.
+ */
+export function formatSummary(summary: CommandSummary): string {
+  const command = JSON.stringify(summary.argv)
+  const status = summary.timedOut
+    ? `timed out (exit code ${summary.exitCode})`
+    : summary.exitSignal
+      ? `terminated by signal ${summary.exitSignal} (exit code ${summary.exitCode})`
+      : `exited with code ${summary.exitCode}`
+
+  const lines = [
+    `### ${summary.failure === null ? '✅ Command succeeded' : '❌ Command failed'}`,
+    '',
+    `- **Command:** ${formatCodeSpan(command)}`,
+    `- **Status:** ${status}`,
+    `- **Duration:** ${(summary.durationMs / 1000).toFixed(3)}s`
+  ]
+  if (summary.attempts > 1) {
+    lines.push(`- **Attempts:** ${summary.attempts}`)
+  }
+  if (summary.failure !== null) {
+    lines.push(`- **Failure:** ${summary.failure}`)
+  }
+  lines.push('')
+
+  if (summary.output === null) {
+    lines.push('_Output is hidden by hide_outputs._', '')
+  } else {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const text = summary.output[stream]
+      if (text === '') {
+        continue
+      }
+      const fence = backticksFor(text, 3)
+      lines.push(`**${stream}:**`, '', `${fence}text`, text, fence, '')
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,237 @@
+/**
+ * Helpers for splitting a command line into the executable and its arguments
+ * like a POSIX shell does, and for expanding environment variables in it.
+ */
+
+/**
+ * How a command is split into the executable and its arguments.
+ * - legacy: the action's original rules, where a backslash escapes the next
+ *   character even inside single quotes and empty quoted arguments are dropped
+ * - posix: the word splitting and quote removal rules of a POSIX shell
+ */
+export type ParseMode = 'legacy' | 'posix'
+
+/**
+ * Parse the parse mode input.
+ *
+ * @param input The parse mode input string.
+ * @returns The parse mode. Defaults to "legacy".
+ */
+export function parseParseMode(input: string): ParseMode {
+  const mode = input.trim().toLowerCase() || 'legacy'
+
+  if (mode !== 'legacy' && mode !== 'posix') {
+    throw new Error(
+      `Invalid parse_mode: "${input}". Expected "legacy" or "posix"`
+    )
+  }
+
+  return mode
+}
+
+// Characters a backslash escapes inside double quotes
+const DOUBLE_QUOTE_ESCAPES = '"\\$`\n'
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*/
+
+/**
+ * Expand the environment variable reference starting with the "$" at the
+ * given position: $NAME, ${NAME}, ${NAME:-default} (the default when the
+ * variable is unset or empty) or ${NAME:?message} (an error when it is).
+ * Variables in the default and the message are expanded too. Quotes in them
+ * are rejected rather than kept or removed: values are never split, so they
+ * are never needed. Unset variables expand to "".
+ *
+ * @param text The text containing the reference.
+ * @param start The position of the "$".
+ * @param env The environment to read variables from.
+ * @returns The value and the position after the reference, or null if the
+ *   "$" does not start a reference and is literal.
+ */
+export function expandVariable(
+  text: string,
+  start: number,
+  env: NodeJS.ProcessEnv
+): { value: string; end: number } | null {
+  const name = VARIABLE_NAME.exec(text.slice(start + 1))
+  if (name) {
+    return { value: env[name[0]] ?? '', end: start + 1 + name[0].length }
+  }
+
+  if (text[start + 1] !== '{') {
+    return null
+  }
+
+  // Find the closing brace, skipping over nested references
+  let depth = 1
+  let end = start + 2
+  for (; end < text.length; end++) {
+    if (text.startsWith('${', end)) {
+      depth++
+      end++
+    } else if (text[end] === '}' && --depth === 0) {
+      break
+    }
+  }
+  if (end >= text.length) {
+    throw new Error(`Invalid command: unclosed "\${" in "${text.slice(start)}"`)
+  }
+
+  const body = text.slice(start + 2, end)
+  const match = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:-|:\?)(.*))?$/s.exec(body)
+  if (!match) {
+    throw new Error(`Invalid command: unsupported expansion "\${${body}}"`)
+  }
+
+  const [, variable, operator, word] = match
+  if (operator !== undefined && /['"]/.test(word)) {
+    throw new Error(
+      `Invalid command: quotes are not supported in "\${${body}}". The default is never split, so write it without quotes`
+    )
+  }
+  const value = env[variable] ?? ''
+  if (value !== '' || operator === undefined) {
+    return { value, end: end + 1 }
+  }
+
+  const expandedWord = expandText(word, env)
+  if (operator === ':?') {
+    throw new Error(
+      `${variable}: ${expandedWord || 'parameter null or not set'}`
+    )
+  }
+
+  return { value: expandedWord, end: end + 1 }
+}
+
+/**
+ * Expand every environment variable reference in a text, without any
+ * quoting.
+ *
+ * @param text The text to expand.
+ * @param env The environment to read variables from.
+ * @returns The expanded text.
+ */
+function expandText(text: string, env: NodeJS.ProcessEnv): string {
+  let result = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const expansion = text[i] === '$' ? expandVariable(text, i, env) : null
+    if (expansion) {
+      result += expansion.value
+      i = expansion.end - 1
+    } else {
+      result += text[i]
+    }
+  }
+
+  return result
+}
+
+/**
+ * Split a command into words like a POSIX shell, without any expansion:
+ * - words are separated by unquoted spaces, tabs and newlines; a newline
+ *   does not end the command
+ * - a backslash outside quotes keeps the next character literally, and a
+ *   backslash followed by a newline is removed (a line continuation)
+ * - everything inside single quotes is literal, including backslashes
+ * - inside double quotes, a backslash only escapes ", \, $, ` and a newline,
+ *   and is kept literally before any other character
+ * - quotes can be adjacent to other text ("a"'b'c is one word), and empty
+ *   quotes are an empty word
+ * - an unquoted "#" at the start of a word starts a comment that runs to the
+ *   end of the line
+ * Shell operators (such as |, ; and >) and "`" are not special, and are kept
+ * as they are. Environment variables are only expanded when an environment is
+ * given, outside single quotes, and never split into several words; an
+ * unquoted reference that expands to "" is dropped, as in a shell.
+ *
+ * @param command The command to split.
+ * @param env The environment to expand variables from, or null to keep "$"
+ *   literally.
+ * @returns The words.
+ */
+export function splitPosixWords(
+  command: string,
+  env: NodeJS.ProcessEnv | null = null
+): string[] {
+  const words: string[] = []
+  let current = ''
+  // Whether a word has started, which may be empty when it is quoted
+  let inWord = false
+  let i = 0
+
+  while (i < command.length) {
+    const char = command[i]
+
+    if (char === ' ' || char === '\t' || char === '\n') {
+      if (inWord) {
+        words.push(current)
+        current = ''
+        inWord = false
+      }
+      i++
+    } else if (char === '#' && !inWord) {
+      const end = command.indexOf('\n', i)
+      i = end === -1 ? command.length : end
+    } else if (char === '\\') {
+      if (command[i + 1] !== '\n') {
+        // A backslash at the very end is kept, as shells do
+        current += command[i + 1] ?? '\\'
+        inWord = true
+      }
+      i += 2
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1)
+      if (end === -1) {
+        throw new Error(`Invalid command: unclosed quote (')`)
+      }
+      current += command.slice(i + 1, end)
+      inWord = true
+      i = end + 1
+    } else if (char === '"') {
+      inWord = true
+      for (i++; command[i] !== '"'; i++) {
+        if (i >= command.length) {
+          throw new Error(`Invalid command: unclosed quote (")`)
+        }
+        const expansion =
+          env && command[i] === '$' ? expandVariable(command, i, env) : null
+        if (expansion) {
+          current += expansion.value
+          i = expansion.end - 1
+        } else if (
+          command[i] === '\\' &&
+          i + 1 < command.length &&
+          DOUBLE_QUOTE_ESCAPES.includes(command[i + 1])
+        ) {
+          i++
+          if (command[i] !== '\n') {
+            current += command[i]
+          }
+        } else {
+          current += command[i]
+        }
+      }
+      i++
+    } else {
+      const expansion =
+        env && char === '$' ? expandVariable(command, i, env) : null
+      if (expansion) {
+        current += expansion.value
+        inWord ||= expansion.value !== ''
+        i = expansion.end
+      } else {
+        current += char
+        inWord = true
+        i++
+      }
+    }
+  }
+
+  if (inWord) {
+    words.push(current)
+  }
+
+  return words
+}